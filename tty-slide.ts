@@ -4,11 +4,13 @@
  * TTY Slide - Terminal slideshow with multiple image sources
  *
  * A Deno terminal-based slideshow that fetches images from multiple APIs
- * (Waifu API, Pexels API, etc.) and displays them using jp2a.
+ * (Waifu API, Pexels API, etc.) and displays them using jp2a, chafa or the
+ * sixel, kitty and iTerm2 terminal graphics protocols.
  *
  * Requirements:
- * - Deno runtime (v1.30+)
- * - jp2a for ASCII art conversion
+ * - Deno runtime (v1.40+)
+ * - Optional: jp2a or chafa for ASCII art (a built-in renderer is used otherwise),
+ *   ImageMagick for formats other than JPEG/PNG in the sixel/kitty renderers
  * - .env file with API keys (optional for some sources)
  *
  * @example
@@ -30,25 +32,19 @@
  */
 
 import {
-  bgBrightCyan,
-  bgBrightGreen,
-  bgBrightMagenta,
-  bgBrightRed,
-  bgBrightWhite,
-  bgBrightYellow,
-  bgRed,
   bold,
   brightCyan,
   brightRed,
-  brightYellow,
-  dim,
   green,
+  setColorEnabled,
+  stripColor,
   red,
   white,
   yellow,
 } from "https://deno.land/std@0.181.0/fmt/colors.ts";
 import { load } from "https://deno.land/std@0.181.0/dotenv/mod.ts";
-import { basename, dirname } from "https://deno.land/std@0.181.0/path/mod.ts";
+import { basename, dirname, extname } from "https://deno.land/std@0.181.0/path/mod.ts";
+import { encode as encodeBase64 } from "https://deno.land/std@0.181.0/encoding/base64.ts";
 
 // Load environment variables
 const env = await load();
@@ -125,27 +121,251 @@ interface SlideImage {
   tags?: string[];
   description?: string;
   isNsfw?: boolean;
+  width?: number;
+  height?: number;
+  date?: Date; // Upload date, or modification time for local files
+  exif?: ExifData;
 }
 
+// Playback order of local directories
+type SlideOrder = "random" | "name" | "date" | "taken";
+
+// Where the caption is drawn relative to the image
+type CaptionPosition = "top" | "bottom" | "overlay" | "statusline";
+
 interface Config {
   source: "waifu" | "pexels" | "random" | string; // Allow any string for directory paths
   includeNsfw: boolean;
   intervalSeconds: number;
   outputDir: string;
   colors: boolean;
+  invert: boolean; // Dense characters for dark areas, for terminals with a light background
+  colorDepth: ColorDepth;
+  theme: string;
+  keymapPath: string | null; // null reads the keymap from the config directory, when there is one
+  mouse: boolean;
   fill: boolean;
   caption: boolean;
+  captionFormat: string | null;
+  captionPosition: CaptionPosition;
+  captionLines: number;
+  sort: SlideOrder;
   maxRetries: number;
   timeout: number;
   noSave?: boolean;
   customTags?: string[];
+  historySize: number;
+  prefetch: number;
+  renderer: string;
+  mode: RenderMode;
+  transition: TransitionKind | "random" | "none";
+  transitionMs: number;
+  kenBurns: boolean;
+  grid: GridSize | null;
+  exportFormats: ExportFormat[];
+  recordPath: string | null;
+  once: boolean;
+  count: number | null;
 }
 
+// Colours the terminal can display: the 16 basic ones, the 256 colour palette or 24-bit RGB
+type ColorDepth = "16" | "256" | "truecolor";
+
+// Character set used by the text renderers
+type RenderMode = "ascii" | "blocks" | "braille";
+
 interface Tags {
   versatile: string[];
   nsfw: string[];
 }
 
+// Parts of the interface a theme colours
+type ThemeRole =
+  | "title"
+  | "key"
+  | "text"
+  | "strong"
+  | "separator"
+  | "caption"
+  | "description"
+  | "tags"
+  | "muted"
+  | "playing"
+  | "paused"
+  | "bar"
+  | "info"
+  | "success"
+  | "warning"
+  | "error"
+  | "debug";
+
+// Space separated colour names, #rrggbb, on-<colour> for the background and bold, dim, italic, underline, reverse
+type ThemeStyles = Record<ThemeRole, string>;
+
+// Colours of the header, captions, progress bar, messages and log output
+class Theme {
+  private static readonly BUILTIN: Record<string, ThemeStyles> = {
+    default: {
+      title: "brightCyan",
+      key: "green",
+      text: "white",
+      strong: "bold white",
+      separator: "brightCyan",
+      caption: "yellow",
+      description: "green",
+      tags: "brightCyan",
+      muted: "dim",
+      playing: "green",
+      paused: "yellow",
+      bar: "brightWhite",
+      info: "brightCyan",
+      success: "green",
+      warning: "yellow",
+      error: "red",
+      debug: "brightMagenta",
+    },
+    mono: {
+      title: "bold",
+      key: "bold",
+      text: "",
+      strong: "bold",
+      separator: "",
+      caption: "",
+      description: "",
+      tags: "italic",
+      muted: "dim",
+      playing: "",
+      paused: "bold",
+      bar: "",
+      info: "",
+      success: "",
+      warning: "bold",
+      error: "bold underline",
+      debug: "dim",
+    },
+    solarized: {
+      title: "bold #268bd2",
+      key: "#859900",
+      text: "#93a1a1",
+      strong: "bold #eee8d5",
+      separator: "#586e75",
+      caption: "#b58900",
+      description: "#2aa198",
+      tags: "#6c71c4",
+      muted: "#586e75",
+      playing: "#859900",
+      paused: "#cb4b16",
+      bar: "#268bd2",
+      info: "#268bd2",
+      success: "#859900",
+      warning: "#b58900",
+      error: "#dc322f",
+      debug: "#d33682",
+    },
+    "high-contrast": {
+      title: "bold brightWhite",
+      key: "bold brightYellow",
+      text: "brightWhite",
+      strong: "bold brightWhite",
+      separator: "brightWhite",
+      caption: "bold brightYellow",
+      description: "brightWhite",
+      tags: "brightCyan",
+      muted: "white",
+      playing: "bold brightGreen",
+      paused: "bold brightYellow",
+      bar: "brightWhite",
+      info: "bold brightCyan",
+      success: "bold brightGreen",
+      warning: "bold brightYellow",
+      error: "bold brightRed",
+      debug: "bold brightMagenta",
+    },
+  };
+
+  static readonly NAMES = Object.keys(Theme.BUILTIN);
+
+  private static readonly COLORS = ["black", "red", "green", "yellow", "blue", "magenta", "cyan", "white"];
+  private static readonly ATTRIBUTES: Record<string, number> = { bold: 1, dim: 2, italic: 3, underline: 4, reverse: 7 };
+
+  // SGR parameters for each role; null until a theme is loaded or first used
+  private static codes: Record<ThemeRole, string> | null = null;
+  private static enabled = true;
+
+  // Loads a built-in theme or a JSON file of role styles; roles the file leaves out keep the default style
+  static async load(name: string, depth: ColorDepth, enabled: boolean): Promise<void> {
+    let styles = this.BUILTIN[name];
+
+    if (!styles) {
+      const custom = JSON.parse(await Deno.readTextFile(name));
+      if (typeof custom !== "object" || custom === null || Array.isArray(custom)) {
+        throw new Error("a theme file must contain a JSON object of role styles");
+      }
+      for (const [role, style] of Object.entries(custom)) {
+        if (!(role in this.BUILTIN.default)) {
+          throw new Error(`unknown role "${role}" (roles: ${Object.keys(this.BUILTIN.default).join(", ")})`);
+        }
+        if (typeof style !== "string") {
+          throw new Error(`the style of "${role}" must be a string`);
+        }
+      }
+      styles = { ...this.BUILTIN.default, ...custom };
+    }
+
+    this.codes = this.compile(styles, depth);
+    this.enabled = enabled;
+  }
+
+  static paint(role: ThemeRole, text: string): string {
+    const codes = this.getCodes()[role];
+    return this.enabled && codes ? `\x1b[${codes}m${text}\x1b[0m` : text;
+  }
+
+  // The role's colour as a bold label background, like the log levels
+  static badge(role: ThemeRole, text: string): string {
+    const codes = this.getCodes()[role];
+    return this.enabled ? `\x1b[${codes ? codes + ";" : ""}1;7m${text}\x1b[0m` : text;
+  }
+
+  // Log lines can be written before the configured theme is loaded
+  private static getCodes(): Record<ThemeRole, string> {
+    if (!this.codes) {
+      this.codes = this.compile(this.BUILTIN.default, TerminalUtils.detectColorDepth());
+      this.enabled = TerminalUtils.interfaceColorsEnabled();
+    }
+    return this.codes;
+  }
+
+  private static compile(styles: ThemeStyles, depth: ColorDepth): Record<ThemeRole, string> {
+    const codes = {} as Record<ThemeRole, string>;
+    for (const [role, style] of Object.entries(styles) as [ThemeRole, string][]) {
+      codes[role] = style.split(/\s+/).filter(Boolean).map((token) => this.tokenToSgr(token, role, depth)).join(";");
+    }
+    return codes;
+  }
+
+  private static tokenToSgr(token: string, role: ThemeRole, depth: ColorDepth): string {
+    if (token in this.ATTRIBUTES) return `${this.ATTRIBUTES[token]}`;
+
+    const background = token.startsWith("on-");
+    const color = background ? token.slice(3) : token;
+
+    const hex = color.match(/^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i);
+    if (hex) {
+      const [r, g, b] = hex.slice(1).map((value) => parseInt(value, 16));
+      return TerminalUtils.colorEscape(r, g, b, background, depth).slice(2, -1);
+    }
+
+    // Names are the 16 basic colours, which every depth can show: red, brightRed, ...
+    const bright = color.startsWith("bright");
+    const index = this.COLORS.indexOf(bright ? color.slice(6).toLowerCase() : color);
+    if (index === -1) {
+      throw new Error(`unknown style "${token}" for "${role}"`);
+    }
+    return `${TerminalUtils.basicColorCode(index + (bright ? 8 : 0), background)}`;
+  }
+}
+
 // Logging utility
 class Logger {
   private static formatTime(): string {
@@ -158,21 +378,21 @@ class Logger {
 
   static info(message: string): void {
     if (this.isDebugMode()) {
-      const timestamp = brightCyan(`[${this.formatTime()}]`);
-      const level = bgBrightCyan(bold(` INFO `));
-      console.log(`${timestamp} ${level} ${white(message)}`);
+      const timestamp = Theme.paint("info", `[${this.formatTime()}]`);
+      const level = Theme.badge("info", ` INFO `);
+      console.log(`${timestamp} ${level} ${Theme.paint("text", message)}`);
     }
   }
 
   static error(message: string, error?: Error): void {
     if (this.isDebugMode()) {
-      const timestamp = brightCyan(`[${this.formatTime()}]`);
-      const level = bgBrightRed(bold(` ERROR `));
-      console.error(`${timestamp} ${level} ${brightRed(message)}`);
+      const timestamp = Theme.paint("info", `[${this.formatTime()}]`);
+      const level = Theme.badge("error", ` ERROR `);
+      console.error(`${timestamp} ${level} ${Theme.paint("error", message)}`);
       if (error) {
-        const stackLabel = bgRed(bold(` STACK `));
+        const stackLabel = Theme.badge("error", ` STACK `);
         console.error(
-          `${timestamp} ${stackLabel} ${red(error.stack || error.message)}`,
+          `${timestamp} ${stackLabel} ${Theme.paint("error", error.stack || error.message)}`,
         );
       }
     }
@@ -180,47 +400,59 @@ class Logger {
 
   static warn(message: string): void {
     if (this.isDebugMode()) {
-      const timestamp = brightCyan(`[${this.formatTime()}]`);
-      const level = bgBrightYellow(bold(` WARN `));
-      console.warn(`${timestamp} ${level} ${yellow(message)}`);
+      const timestamp = Theme.paint("info", `[${this.formatTime()}]`);
+      const level = Theme.badge("warning", ` WARN `);
+      console.warn(`${timestamp} ${level} ${Theme.paint("warning", message)}`);
     }
   }
 
   static debug(message: string): void {
     if (this.isDebugMode()) {
-      const timestamp = brightCyan(`[${this.formatTime()}]`);
-      const level = bgBrightMagenta(bold(` DEBUG `));
-      console.log(`${timestamp} ${level} ${white(message)}`);
+      const timestamp = Theme.paint("info", `[${this.formatTime()}]`);
+      const level = Theme.badge("debug", ` DEBUG `);
+      console.log(`${timestamp} ${level} ${Theme.paint("text", message)}`);
     }
   }
 
   static success(message: string): void {
     if (this.isDebugMode()) {
-      const timestamp = brightCyan(`[${this.formatTime()}]`);
-      const level = bgBrightGreen(bold(` SUCCESS `));
-      console.log(`${timestamp} ${level} ${green(message)}`);
+      const timestamp = Theme.paint("info", `[${this.formatTime()}]`);
+      const level = Theme.badge("success", ` SUCCESS `);
+      console.log(`${timestamp} ${level} ${Theme.paint("success", message)}`);
     }
   }
 }
 
 // System dependency checker
 class DependencyChecker {
-  static async checkJp2a(): Promise<boolean> {
+  private static jp2aVersion: Promise<string | null> | null = null;
+
+  static async commandExists(command: string): Promise<boolean> {
     try {
-      const jp2aCheck = new Deno.Command("which", {
-        args: ["jp2a"],
+      const check = new Deno.Command("which", {
+        args: [command],
         stdout: "piped",
         stderr: "piped",
       });
-      const output = await jp2aCheck.output();
+      const output = await check.output();
       return output.code === 0;
     } catch (error) {
-      Logger.error("Failed to check jp2a dependency", error as Error);
+      Logger.error(`Failed to check ${command} dependency`, error as Error);
       return false;
     }
   }
 
-  static async getJp2aVersion(): Promise<string | null> {
+  static checkJp2a(): Promise<boolean> {
+    return this.commandExists("jp2a");
+  }
+
+  // Asked once: the renderer checks it for every slide
+  static getJp2aVersion(): Promise<string | null> {
+    this.jp2aVersion ??= this.readJp2aVersion();
+    return this.jp2aVersion;
+  }
+
+  private static async readJp2aVersion(): Promise<string | null> {
     try {
       const versionCheck = new Deno.Command("jp2a", {
         args: ["--version"],
@@ -259,17 +491,23 @@ class DependencyChecker {
     return 0;
   }
 
-  static async checkAllDependencies(): Promise<void> {
-    Logger.info("Checking system dependencies...");
+  static async checkAllDependencies(renderer: Renderer): Promise<Renderer> {
+    Logger.info(`Checking system dependencies for the ${renderer.getName()} renderer...`);
+
+    const dependenciesMet = await renderer.checkDependencies();
+    if (!dependenciesMet) {
+      // Keep the slideshow usable with the built-in renderer instead of exiting
+      const fallback = RendererRegistry.getFallback();
+      Logger.error(`Dependencies for the ${renderer.getName()} renderer are not installed or not in PATH`);
+      console.warn(`${Theme.paint("warning", "⚠️  WARNING:")} ${renderer.getName()} is not installed, using the ${fallback.getName()} renderer instead.`);
+      renderer.getInstallHint().forEach((line) => console.warn(Theme.paint("warning", `   ${line}`)));
+      console.warn();
+      return fallback;
+    }
 
-    const jp2aExists = await this.checkJp2a();
-    if (!jp2aExists) {
-      Logger.error("jp2a is not installed or not in PATH");
-      console.error("\nTo install jp2a:");
-      console.error("  macOS: brew install jp2a");
-      console.error("  Ubuntu/Debian: sudo apt-get install jp2a");
-      console.error("  Arch: sudo pacman -S jp2a");
-      Deno.exit(1);
+    if (renderer.getName() !== "jp2a") {
+      Logger.success("All dependencies satisfied");
+      return renderer;
     }
 
     // Check jp2a version and warn if too old
@@ -278,30 +516,62 @@ class DependencyChecker {
       Logger.info(`jp2a version: ${jp2aVersion}`);
 
       if (this.compareVersions(jp2aVersion, "1.3.2") < 0) {
-        console.warn(`${yellow("⚠️  WARNING:")} jp2a version ${jp2aVersion} detected. Version 1.3.2+ is recommended.`);
-        console.warn(`${yellow("   The -c (center) flag is not available in older versions.")}`);
-        console.warn(`${yellow("   Images will be centered manually by TTY-Slide.")}\n`);
+        console.warn(`${Theme.paint("warning", "⚠️  WARNING:")} jp2a version ${jp2aVersion} detected. Version 1.3.2+ is recommended.`);
+        console.warn(`${Theme.paint("warning", "   The -c (center) flag is not available in older versions.")}`);
+        console.warn(`${Theme.paint("warning", "   Images will be centered manually by TTY-Slide.")}\n`);
       }
     } else {
       Logger.warn("Could not determine jp2a version");
     }
 
     Logger.success("All dependencies satisfied");
+    return renderer;
   }
 }
 
 // Configuration management
 class ConfigManager {
+  private static readonly NSFW_TAGS = [
+    "ass",
+    "hentai",
+    "milf",
+    "oral",
+    "paizuri",
+    "ecchi",
+    "ero",
+  ];
+
   private static readonly DEFAULT_CONFIG: Config = {
     source: "random",
     includeNsfw: false,
     intervalSeconds: 10,
     outputDir: "./slides", // Will be updated by getDefaultImagesDirectory
     colors: false,
+    invert: false,
+    colorDepth: "256", // Replaced by the detected depth
+    theme: "default",
+    keymapPath: null,
+    mouse: false,
     fill: false,
     caption: false,
+    captionFormat: null,
+    captionPosition: "bottom",
+    captionLines: 6,
+    sort: "random",
     maxRetries: 3,
     timeout: 30000,
+    historySize: 20,
+    prefetch: 2,
+    renderer: "auto",
+    mode: "ascii",
+    transition: "none",
+    transitionMs: 600,
+    kenBurns: false,
+    grid: null,
+    exportFormats: [],
+    recordPath: null,
+    once: false,
+    count: null,
   };
 
   private static async getDefaultImagesDirectory(): Promise<string> {
@@ -333,19 +603,15 @@ class ConfigManager {
     config.includeNsfw = Deno.args.includes("--nsfw");
     config.colors = Deno.args.includes("--colors");
     config.fill = Deno.args.includes("--fill");
+    config.invert = Deno.args.includes("--invert");
     config.caption = Deno.args.includes("--caption");
+    config.kenBurns = Deno.args.includes("--ken-burns");
+    config.once = Deno.args.includes("--once");
+    config.mouse = Deno.args.includes("--mouse");
 
     const sourceArg = Deno.args.find((arg) => arg.startsWith("--source="));
     if (sourceArg) {
-      const source = sourceArg.split("=")[1];
-      // Accept any source - predefined sources or directory paths
-      config.source = source;
-
-      // If source looks like a directory path, automatically set --no-save
-      if (source !== "waifu" && source !== "pexels" && source !== "random") {
-        config.noSave = true;
-        Logger.info(`Directory source detected (${source}), automatically enabling --no-save`);
-      }
+      this.setSource(config, sourceArg.split("=")[1]);
     }
 
     const intervalArg = Deno.args.find((arg) => arg.startsWith("--interval="));
@@ -356,6 +622,158 @@ class ConfigManager {
       }
     }
 
+    const historyArg = Deno.args.find((arg) => arg.startsWith("--history="));
+    if (historyArg) {
+      const historySize = parseInt(historyArg.split("=")[1]);
+      if (!isNaN(historySize) && historySize > 0) {
+        config.historySize = historySize;
+      }
+    }
+
+    const prefetchArg = Deno.args.find((arg) => arg.startsWith("--prefetch="));
+    if (prefetchArg) {
+      const prefetch = parseInt(prefetchArg.split("=")[1]);
+      if (!isNaN(prefetch) && prefetch >= 0) {
+        config.prefetch = prefetch;
+      }
+    }
+
+    const countArg = Deno.args.find((arg) => arg.startsWith("--count="));
+    if (countArg) {
+      const count = parseInt(countArg.split("=")[1]);
+      if (!isNaN(count) && count > 0) {
+        config.count = count;
+      }
+    }
+    if (config.once) {
+      config.count = 1;
+    }
+
+    // No point fetching slides that will never be shown
+    if (config.count !== null) {
+      config.prefetch = Math.min(config.prefetch, config.count - 1);
+    }
+
+    const rendererArg = Deno.args.find((arg) => arg.startsWith("--renderer="));
+    if (rendererArg) {
+      config.renderer = rendererArg.split("=")[1];
+    }
+
+    const modeArg = Deno.args.find((arg) => arg.startsWith("--mode="));
+    if (modeArg) {
+      const mode = modeArg.split("=")[1];
+      if (mode === "ascii" || mode === "blocks" || mode === "braille") {
+        config.mode = mode;
+      } else {
+        Logger.warn(`Unknown mode: ${mode}, using ascii`);
+      }
+    }
+
+    const transitionArg = Deno.args.find((arg) => arg.startsWith("--transition="));
+    if (transitionArg) {
+      const transition = transitionArg.split("=")[1];
+      if (transition === "random" || transition === "none" || SlideTransition.KINDS.includes(transition as TransitionKind)) {
+        config.transition = transition as Config["transition"];
+      } else {
+        Logger.warn(`Unknown transition: ${transition}, using none`);
+      }
+    }
+
+    const transitionMsArg = Deno.args.find((arg) => arg.startsWith("--transition-ms="));
+    if (transitionMsArg) {
+      const transitionMs = parseInt(transitionMsArg.split("=")[1]);
+      if (!isNaN(transitionMs) && transitionMs >= 0) {
+        config.transitionMs = transitionMs;
+      }
+    }
+
+    const gridArg = Deno.args.find((arg) => arg.startsWith("--grid="));
+    if (gridArg) {
+      const size = ContactSheet.parseSize(gridArg.split("=")[1]);
+      if (!size) {
+        Logger.warn(`Invalid grid: ${gridArg.split("=")[1]}, using 3x2`);
+      }
+      config.grid = size ?? ContactSheet.DEFAULT_SIZE;
+    }
+
+    const exportArg = Deno.args.find((arg) => arg.startsWith("--export-ascii="));
+    if (exportArg) {
+      for (const format of exportArg.split("=")[1].split(",").map((format) => format.trim())) {
+        if (AsciiExporter.FORMATS.includes(format as ExportFormat)) {
+          config.exportFormats.push(format as ExportFormat);
+        } else if (format) {
+          Logger.warn(`Unknown export format: ${format}`);
+        }
+      }
+    }
+
+    const captionFormatArg = Deno.args.find((arg) => arg.startsWith("--caption-format="));
+    if (captionFormatArg) {
+      config.captionFormat = captionFormatArg.slice("--caption-format=".length);
+      config.caption = true;
+    }
+
+    const captionPositionArg = Deno.args.find((arg) => arg.startsWith("--caption-position="));
+    if (captionPositionArg) {
+      const position = captionPositionArg.split("=")[1];
+      if (["top", "bottom", "overlay", "statusline"].includes(position)) {
+        config.captionPosition = position as CaptionPosition;
+        config.caption = true;
+      } else {
+        Logger.warn(`Unknown caption position: ${position}, using bottom`);
+      }
+    }
+
+    const sortArg = Deno.args.find((arg) => arg.startsWith("--sort="));
+    if (sortArg) {
+      const sort = sortArg.split("=")[1];
+      if (["random", "name", "date", "taken"].includes(sort)) {
+        config.sort = sort as SlideOrder;
+      } else {
+        Logger.warn(`Unknown sort order: ${sort}, using random`);
+      }
+    }
+
+    const captionLinesArg = Deno.args.find((arg) => arg.startsWith("--caption-lines="));
+    if (captionLinesArg) {
+      const captionLines = parseInt(captionLinesArg.split("=")[1]);
+      if (!isNaN(captionLines) && captionLines > 0) {
+        config.captionLines = captionLines;
+      }
+    }
+
+    config.colorDepth = TerminalUtils.detectColorDepth();
+    const colorDepthArg = Deno.args.find((arg) => arg.startsWith("--color-depth="));
+    if (colorDepthArg) {
+      const depth = colorDepthArg.split("=")[1];
+      if (depth === "16" || depth === "256" || depth === "truecolor") {
+        config.colorDepth = depth;
+      } else {
+        Logger.warn(`Unknown color depth: ${depth}, using ${config.colorDepth}`);
+      }
+    }
+
+    const themeArg = Deno.args.find((arg) => arg.startsWith("--theme="));
+    if (themeArg) {
+      // Anything that is not a built-in theme name is read as a JSON theme file when the slideshow starts
+      const theme = themeArg.slice("--theme=".length);
+      if (Theme.NAMES.includes(theme) || theme.endsWith(".json")) {
+        config.theme = theme;
+      } else {
+        Logger.warn(`Unknown theme: ${theme}, using default`);
+      }
+    }
+
+    const keymapArg = Deno.args.find((arg) => arg.startsWith("--keymap="));
+    if (keymapArg) {
+      config.keymapPath = keymapArg.slice("--keymap=".length) || null;
+    }
+
+    const recordArg = Deno.args.find((arg) => arg.startsWith("--record="));
+    if (recordArg) {
+      config.recordPath = recordArg.slice("--record=".length) || null;
+    }
+
     const dirArg = Deno.args.find((arg) => arg.startsWith("--dir="));
     if (dirArg) {
       config.outputDir = dirArg.split("=")[1];
@@ -366,31 +784,160 @@ class ConfigManager {
       const tags = tagsArg.split("=")[1].split(",").map((tag) => tag.trim())
         .filter((tag) => tag.length > 0);
       if (tags.length > 0) {
-        config.customTags = tags;
-        // If NSFW tags are specified, enable NSFW mode
-        const nsfwTags = [
-          "ass",
-          "hentai",
-          "milf",
-          "oral",
-          "paizuri",
-          "ecchi",
-          "ero",
-        ];
-        if (tags.some((tag) => nsfwTags.includes(tag.toLowerCase()))) {
-          config.includeNsfw = true;
-        }
+        this.setTags(config, tags);
       }
     }
 
     return config;
   }
+
+  // Accepts any source - predefined sources or directory paths; used by --source and the :source command
+  static setSource(config: Config, source: string): void {
+    config.source = source;
+    config.noSave = Deno.args.includes("--no-save");
+
+    // If source looks like a directory path, automatically set --no-save
+    if (source !== "random" && !FetcherRegistry.getSourceNames().includes(source)) {
+      config.noSave = true;
+      Logger.info(`Directory source detected (${source}), automatically enabling --no-save`);
+    }
+  }
+
+  // No tags go back to random ones; used by --tags and the :tags command
+  static setTags(config: Config, tags: string[]): void {
+    config.customTags = tags.length > 0 ? tags : undefined;
+    // If NSFW tags are specified, enable NSFW mode
+    config.includeNsfw = Deno.args.includes("--nsfw") ||
+      tags.some((tag) => this.NSFW_TAGS.includes(tag.toLowerCase()));
+  }
+}
+
+// What can be blocked: one image by its URL, every image of an artist, or every image with a tag
+type BlockKind = "image" | "artist" | "tag";
+
+// The blocklist file: image URLs, artist names and tags
+interface BlockedItems {
+  images: string[];
+  artists: string[];
+  tags: string[];
+}
+
+// Images, artists and tags never to show again, kept in a JSON file in the config directory. Every fetcher
+// leaves them out before a slide is shown; artists and tags match whatever their case
+class Blocklist {
+  static readonly LISTS: Record<BlockKind, keyof BlockedItems> = { image: "images", artist: "artists", tag: "tags" };
+
+  private static items: BlockedItems = { images: [], artists: [], tags: [] };
+  private static pending: Promise<unknown> = Promise.resolve(); // The change being written, if any
+
+  // $XDG_CONFIG_HOME/tty-slide/blocklist.json, usually ~/.config/tty-slide/blocklist.json
+  static path(): string | null {
+    const configHome = Deno.env.get("XDG_CONFIG_HOME") ||
+      (Deno.env.get("HOME") ? `${Deno.env.get("HOME")}/.config` : null);
+    return configHome ? `${configHome}/tty-slide/blocklist.json` : null;
+  }
+
+  // Reads the blocklist; until something is blocked there is no file
+  static async load(): Promise<BlockedItems> {
+    const path = this.path();
+    if (!path) return this.items;
+
+    let text: string;
+    try {
+      text = await Deno.readTextFile(path);
+    } catch (error) {
+      if (!(error instanceof Deno.errors.NotFound)) throw error;
+      text = "{}";
+    }
+
+    const stored = JSON.parse(text);
+    if (typeof stored !== "object" || stored === null || Array.isArray(stored)) {
+      throw new Error("a blocklist file must contain a JSON object of images, artists and tags");
+    }
+
+    const items: BlockedItems = { images: [], artists: [], tags: [] };
+    for (const list of Object.values(this.LISTS)) {
+      const values = stored[list] ?? [];
+      if (!Array.isArray(values) || values.some((value) => typeof value !== "string")) {
+        throw new Error(`"${list}" must be a list of strings`);
+      }
+      items[list] = values;
+    }
+    this.items = items;
+    return items;
+  }
+
+  static get(): BlockedItems {
+    return this.items;
+  }
+
+  static blocks(slideImage: Pick<SlideImage, "url" | "artist" | "tags">): boolean {
+    return this.items.images.includes(slideImage.url) ||
+      (slideImage.artist !== undefined && this.matches(this.items.artists, slideImage.artist)) ||
+      (slideImage.tags ?? []).some((tag) => this.blocksTag(tag));
+  }
+
+  static blocksTag(tag: string): boolean {
+    return this.matches(this.items.tags, tag);
+  }
+
+  // The file is read again before every change, so sessions running side by side keep each other's changes
+  static add(kind: BlockKind, value: string): Promise<void> {
+    return this.queue(async () => {
+      const items = await this.load();
+      const list = items[this.LISTS[kind]];
+      if (!list.some((item) => this.isSameValue(kind, item, value))) {
+        list.push(value);
+      }
+      await this.write(items);
+    });
+  }
+
+  static remove(kind: BlockKind, value: string): Promise<void> {
+    return this.queue(async () => {
+      const items = await this.load();
+      const list = this.LISTS[kind];
+      items[list] = items[list].filter((item) => !this.isSameValue(kind, item, value));
+      await this.write(items);
+    });
+  }
+
+  // Images are URLs and compared exactly, artists and tags ignore case as when blocking
+  static isSameValue(kind: BlockKind, item: string, value: string): boolean {
+    return kind === "image" ? item === value : item.toLowerCase() === value.toLowerCase();
+  }
+
+  private static matches(list: string[], value: string): boolean {
+    const lower = value.toLowerCase();
+    return list.some((item) => item.toLowerCase() === lower);
+  }
+
+  // Changes run one at a time, as for the library
+  private static queue(change: () => Promise<void>): Promise<void> {
+    const result = this.pending.then(change);
+    this.pending = result.catch(() => {});
+    return result;
+  }
+
+  private static async write(items: BlockedItems): Promise<void> {
+    const path = this.path();
+    if (!path) {
+      throw new Error("no config directory: set HOME or XDG_CONFIG_HOME");
+    }
+
+    const temporary = `${path}.${crypto.randomUUID()}.tmp`;
+    await Deno.mkdir(dirname(path), { recursive: true });
+    await Deno.writeTextFile(temporary, JSON.stringify(items, null, 2) + "\n");
+    await Deno.rename(temporary, path);
+    this.items = items;
+  }
 }
 
 // Base fetcher interface
 interface ImageFetcher {
   fetchRandomImage(config: Config): Promise<SlideImage | null>;
   listAllTags(): void;
+  getTags(): string[];
   getSource(): string;
 }
 
@@ -425,6 +972,10 @@ class WaifuFetcher implements ImageFetcher {
     return "waifu";
   }
 
+  getTags(): string[] {
+    return [...WaifuFetcher.TAGS.versatile, ...WaifuFetcher.TAGS.nsfw];
+  }
+
   listAllTags(): void {
     console.log(`\n${bold(brightCyan("Waifu API Tags:"))}\n`);
 
@@ -451,12 +1002,21 @@ class WaifuFetcher implements ImageFetcher {
     let tagsToUse: string[];
 
     if (config.customTags && config.customTags.length > 0) {
-      tagsToUse = config.customTags;
+      // A tag both included and excluded would match nothing
+      tagsToUse = config.customTags.filter((tag) => !Blocklist.blocksTag(tag));
+      if (tagsToUse.length === 0) {
+        Logger.error(`Every requested tag is on the blocklist: ${config.customTags.join(", ")}`);
+        return null;
+      }
       Logger.info(`Using custom tags: ${tagsToUse.join(", ")}`);
     } else {
-      const tagCategory = config.includeNsfw
+      const tagCategory = (config.includeNsfw
         ? [...WaifuFetcher.TAGS.versatile, ...WaifuFetcher.TAGS.nsfw]
-        : WaifuFetcher.TAGS.versatile;
+        : WaifuFetcher.TAGS.versatile).filter((tag) => !Blocklist.blocksTag(tag));
+      if (tagCategory.length === 0) {
+        Logger.error("Every waifu tag is on the blocklist");
+        return null;
+      }
       tagsToUse = [tagCategory[Math.floor(Math.random() * tagCategory.length)]];
     }
 
@@ -464,11 +1024,18 @@ class WaifuFetcher implements ImageFetcher {
 
     for (let attempt = 1; attempt <= config.maxRetries; attempt++) {
       try {
-        const params = {
+        const blocked = Blocklist.get();
+        const params: Record<string, string | string[]> = {
           included_tags: tagsToUse,
+          excluded_tags: blocked.tags,
           height: ">=2000",
         };
 
+        // Several candidates, so blocked images and artists can be passed over
+        if (blocked.images.length > 0 || blocked.artists.length > 0) {
+          params.many = "true";
+        }
+
         const queryParams = new URLSearchParams();
         for (const key in params) {
           const value = params[key as keyof typeof params];
@@ -496,10 +1063,21 @@ class WaifuFetcher implements ImageFetcher {
         }
 
         const data: WaifuApiResponse = await response.json();
-        const image = data.images?.[0];
+        if (!data.images?.length) {
+          throw new Error("No image found in API response");
+        }
+
+        const allowed = data.images.filter((candidate) =>
+          !Blocklist.blocks({
+            url: candidate.url,
+            artist: candidate.artist?.name,
+            tags: candidate.tags?.map((tag) => tag.name),
+          })
+        );
+        const image = allowed[Math.floor(Math.random() * allowed.length)];
 
         if (!image || !image.url) {
-          throw new Error("No image found in API response");
+          throw new Error("Only blocked images in API response");
         }
 
         Logger.success(`Successfully fetched waifu image: ${image.url}`);
@@ -512,6 +1090,9 @@ class WaifuFetcher implements ImageFetcher {
           tags: image.tags?.map(tag => tag.name) || [],
           description: image.tags?.map(tag => tag.description).filter(desc => desc).join(" • ") || undefined,
           isNsfw: image.is_nsfw, // Add NSFW flag from API
+          width: image.width,
+          height: image.height,
+          date: image.uploaded_at ? new Date(image.uploaded_at) : undefined,
         };
       } catch (error) {
         Logger.warn(
@@ -553,6 +1134,10 @@ class PexelsFetcher implements ImageFetcher {
     return "pexels";
   }
 
+  getTags(): string[] {
+    return [...PexelsFetcher.TAGS];
+  }
+
   listAllTags(): void {
     console.log(`\n${bold(brightCyan("Pexels API Tags:"))}\n`);
 
@@ -585,7 +1170,12 @@ class PexelsFetcher implements ImageFetcher {
       searchQuery = config.customTags.join(" ");
       Logger.info(`Using custom search query: "${searchQuery}"`);
     } else {
-      searchQuery = PexelsFetcher.TAGS[Math.floor(Math.random() * PexelsFetcher.TAGS.length)];
+      const tags = PexelsFetcher.TAGS.filter((tag) => !Blocklist.blocksTag(tag));
+      if (tags.length === 0) {
+        Logger.error("Every Pexels tag is on the blocklist");
+        return null;
+      }
+      searchQuery = tags[Math.floor(Math.random() * tags.length)];
       Logger.info(`Using random search query: "${searchQuery}"`);
     }
 
@@ -623,8 +1213,14 @@ class PexelsFetcher implements ImageFetcher {
           throw new Error("No photos found in API response");
         }
 
-        // Select a random photo from the results
-        const randomPhoto = data.photos[Math.floor(Math.random() * data.photos.length)];
+        // Select a random photo from the results, passing over blocked photos and photographers
+        const photos = data.photos.filter((photo) =>
+          !Blocklist.blocks({ url: photo.src.large, artist: photo.photographer })
+        );
+        if (photos.length === 0) {
+          throw new Error("Only blocked photos in API response");
+        }
+        const randomPhoto = photos[Math.floor(Math.random() * photos.length)];
 
         Logger.success(`Successfully fetched Pexels image: ${randomPhoto.src.large}`);
 
@@ -634,6 +1230,8 @@ class PexelsFetcher implements ImageFetcher {
           artist: randomPhoto.photographer,
           caption: `Photo by ${randomPhoto.photographer} on Pexels`,
           description: randomPhoto.alt || searchQuery,
+          width: randomPhoto.width,
+          height: randomPhoto.height,
         };
       } catch (error) {
         Logger.warn(
@@ -660,13 +1258,21 @@ class PexelsFetcher implements ImageFetcher {
 // Local directory fetcher
 class LocalDirectoryFetcher implements ImageFetcher {
   private directoryPath: string;
-  private supportedExtensions = ['.jpg', '.jpeg', '.png', '.gif', '.bmp', '.webp'];
+  private supportedExtensions = ['.jpg', '.jpeg', '.png', '.gif', '.bmp', '.webp', '.heic', '.heif'];
+  private static readonly SORT_READERS = 8; // Files read at once for --sort, well below the open file limit
+  private playlist: Promise<string[]> | null = null; // Files in --sort order, rebuilt when the folder changes
+  private playlistListing = ""; // The file names the playlist was built from
+  private sortTimes = new Map<string, number>(); // Sort date per file, so a rebuild only reads new files
+  private nextPosition = 0;
 
   constructor(directoryPath: string) {
     this.directoryPath = directoryPath;
   }
 
-  async fetchRandomImage(_config: Config): Promise<SlideImage | null> {
+  async fetchRandomImage(config: Config): Promise<SlideImage | null> {
+    // Positions are handed out before anything is awaited, so prefetched slides keep their order
+    const position = this.nextPosition++;
+
     try {
       // Check if directory exists
       const dirInfo = await Deno.stat(this.directoryPath);
@@ -695,8 +1301,20 @@ class LocalDirectoryFetcher implements ImageFetcher {
         return null;
       }
 
-      // Select random image
-      const randomImage = imageFiles[Math.floor(Math.random() * imageFiles.length)];
+      const allowedFiles = imageFiles.filter((path) => !LocalDirectoryFetcher.isBlocked(path));
+      if (allowedFiles.length === 0) {
+        Logger.error(`Every image in ${this.directoryPath} is on the blocklist`);
+        return null;
+      }
+
+      // Select random image, or the next one in --sort order
+      const randomImage = config.sort === "random"
+        ? allowedFiles[Math.floor(Math.random() * allowedFiles.length)]
+        : await this.pickSorted(imageFiles, position, config.sort);
+      if (!randomImage) {
+        Logger.error(`Every image in ${this.directoryPath} is on the blocklist`);
+        return null;
+      }
 
       // Get file metadata
       const fileInfo = await Deno.stat(randomImage);
@@ -712,6 +1330,7 @@ class LocalDirectoryFetcher implements ImageFetcher {
         artist: 'Local File',
         source: 'directory',
         description: `Image from local directory: ${dirname(randomImage)}`,
+        date: fileInfo.mtime ?? undefined,
       };
 
     } catch (error) {
@@ -720,6 +1339,72 @@ class LocalDirectoryFetcher implements ImageFetcher {
     }
   }
 
+  // Plays the folder from the oldest file to the newest (or by name), starting over at the end.
+  // Positions count blocked files too, so blocking one does not shift the slides after it
+  private async pickSorted(imageFiles: string[], position: number, sort: SlideOrder): Promise<string | null> {
+    const listing = [...imageFiles].sort().join("\n");
+    if (!this.playlist || listing !== this.playlistListing) {
+      this.playlistListing = listing;
+      this.playlist = this.sortFiles(imageFiles, sort);
+    }
+
+    const playlist = await this.playlist;
+    for (let offset = 0; offset < playlist.length; offset++) {
+      const path = playlist[(position + offset) % playlist.length];
+      if (!LocalDirectoryFetcher.isBlocked(path)) return path;
+    }
+    return null;
+  }
+
+  private static isBlocked(path: string): boolean {
+    return Blocklist.blocks({ url: `file://${path}` });
+  }
+
+  private async sortFiles(imageFiles: string[], sort: SlideOrder): Promise<string[]> {
+    if (sort === "name") {
+      return [...imageFiles].sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+    }
+
+    // Only files not seen before are read, a few at a time: large folders would otherwise run out of file handles
+    const unread = imageFiles.filter((path) => !this.sortTimes.has(path));
+    const total = unread.length;
+    const readDates = async (): Promise<void> => {
+      for (let path = unread.pop(); path !== undefined; path = unread.pop()) {
+        try {
+          const taken = sort === "taken" ? ExifReader.parse(await this.readHead(path))?.dateTaken : undefined;
+          const date = taken ?? (await Deno.stat(path)).mtime;
+          this.sortTimes.set(path, date?.getTime() ?? 0);
+        } catch (error) {
+          // A file that went away or cannot be read sorts first, fetching it reports the problem
+          Logger.warn(`Could not read the date of ${path}: ${(error as Error).message}`);
+          this.sortTimes.set(path, 0);
+        }
+        LoadingAnimation.updateMessage(`Sorting images... ${total - unread.length}/${total}`);
+      }
+    };
+    await Promise.all(Array.from({ length: LocalDirectoryFetcher.SORT_READERS }, readDates));
+    LoadingAnimation.updateMessage("Fetching image...");
+
+    return [...imageFiles].sort((a, b) => this.sortTimes.get(a)! - this.sortTimes.get(b)!);
+  }
+
+  // The EXIF block sits at the start of a JPEG, within its first 64 KB segment
+  private async readHead(path: string): Promise<Uint8Array> {
+    const file = await Deno.open(path);
+    try {
+      const buffer = new Uint8Array(128 * 1024);
+      let length = 0;
+      while (length < buffer.length) {
+        const read = await file.read(buffer.subarray(length));
+        if (read === null) break;
+        length += read;
+      }
+      return buffer.subarray(0, length);
+    } finally {
+      file.close();
+    }
+  }
+
   listAllTags(): void {
     console.log(`\n${bold(brightCyan("Local Directory Fetcher:"))}`);
     console.log(`${green("•")} Source: ${white(this.directoryPath)}`);
@@ -727,88 +1412,322 @@ class LocalDirectoryFetcher implements ImageFetcher {
     console.log(`${green("•")} Note: Local directory source doesn't use tags for filtering`);
   }
 
+  getTags(): string[] {
+    return [];
+  }
+
   getSource(): string {
     return `Local Directory (${this.directoryPath})`;
   }
 }
 
-// Image fetcher registry
-class FetcherRegistry {
-  private static fetchers: Map<string, ImageFetcher> = new Map([
-    ["waifu", new WaifuFetcher()],
-    ["pexels", new PexelsFetcher()],
-  ]);
+// A slide the user favourited or rated, with what is needed to fetch and caption it again
+interface LibraryEntry {
+  url: string;
+  slideImage: SlideImage; // Without EXIF data, which is read from the image again
+  favorite: boolean;
+  rating: number | null; // 1-5 stars
+  addedAt: string; // ISO timestamps
+  updatedAt: string;
+}
 
-  static getFetcher(source: string): ImageFetcher | null {
-    // Check if it's a predefined source
-    const predefinedFetcher = this.fetchers.get(source);
-    if (predefinedFetcher) {
-      return predefinedFetcher;
+// Favourites and star ratings, kept in a JSON file in the data directory across sessions
+class Library {
+  private static entries: LibraryEntry[] = []; // As last read or written
+  private static pending: Promise<unknown> = Promise.resolve(); // The change being written, if any
+
+  // $XDG_DATA_HOME/tty-slide/library.json, usually ~/.local/share/tty-slide/library.json
+  static path(): string | null {
+    const dataHome = Deno.env.get("XDG_DATA_HOME") ||
+      (Deno.env.get("HOME") ? `${Deno.env.get("HOME")}/.local/share` : null);
+    return dataHome ? `${dataHome}/tty-slide/library.json` : null;
+  }
+
+  // Reads the library; before anything was favourited there is no file and the library is empty
+  static async load(): Promise<LibraryEntry[]> {
+    const path = this.path();
+    if (!path) return this.entries;
+
+    let text: string;
+    try {
+      text = await Deno.readTextFile(path);
+    } catch (error) {
+      if (!(error instanceof Deno.errors.NotFound)) throw error;
+      text = "[]";
     }
 
-    // Check if it's a directory path
-    if (this.isDirectoryPath(source)) {
-      return new LocalDirectoryFetcher(source);
+    const entries = JSON.parse(text);
+    if (!Array.isArray(entries)) {
+      throw new Error(`${path} must contain a JSON list of slides`);
     }
+    this.entries = entries;
+    return entries;
+  }
 
-    return null;
+  // The library as last read, for code that cannot wait for the file
+  static cached(): LibraryEntry[] {
+    return this.entries;
   }
 
-  private static isDirectoryPath(source: string): boolean {
-    // Check if the source looks like a path (contains / or \ or starts with . or ~)
-    return source.includes('/') || source.includes('\\') || source.startsWith('.') || source.startsWith('~') || source.startsWith('/');
+  static get(url: string): LibraryEntry | undefined {
+    return this.entries.find((entry) => entry.url === url);
   }
 
-  static getRandomFetcher(): ImageFetcher {
-    const fetcherEntries = Array.from(this.fetchers.entries());
-    const randomEntry = fetcherEntries[Math.floor(Math.random() * fetcherEntries.length)];
-    return randomEntry[1];
+  static async toggleFavorite(slideImage: SlideImage): Promise<LibraryEntry> {
+    return await this.update(slideImage, (entry) => {
+      entry.favorite = !entry.favorite;
+    });
   }
 
-  static listAllSources(): void {
-    console.log(`\n${bold(brightCyan("Available Sources:"))}\n`);
+  // Giving a slide the rating it already has takes the rating away
+  static async rate(slideImage: SlideImage, rating: number): Promise<LibraryEntry> {
+    return await this.update(slideImage, (entry) => {
+      entry.rating = entry.rating === rating ? null : rating;
+    });
+  }
 
-    this.fetchers.forEach((fetcher, source) => {
-      console.log(`${green("•")} ${bold(white(source))} - ${fetcher.getSource()} API`);
+  static remove(urls: string[]): Promise<void> {
+    return this.queue(async () => {
+      const entries = await this.load();
+      await this.write(entries.filter((entry) => !urls.includes(entry.url)));
     });
+  }
 
-    console.log(`${green("•")} ${bold(white("random"))} - Randomly select from all sources`);
-    console.log(`${green("•")} ${bold(white("/path/to/dir"))} - Use local directory (automatically sets --no-save)`);
+  // Favourites come back from JSON with dates as strings
+  static toSlideImage(entry: LibraryEntry): SlideImage {
+    const slideImage = { ...entry.slideImage };
+    if (slideImage.date) {
+      slideImage.date = new Date(slideImage.date);
+    }
+    return slideImage;
   }
 
-  static listAllTags(): void {
-    this.fetchers.forEach((fetcher) => {
-      fetcher.listAllTags();
-      console.log(); // Add spacing between sources
+  static stars(rating: number | null): string {
+    return rating ? "★".repeat(rating) + "☆".repeat(5 - rating) : "";
+  }
+
+  // The file is read again before every change, so sessions running side by side keep each other's changes.
+  // A slide that is neither a favourite nor rated any more leaves the library
+  private static update(slideImage: SlideImage, change: (entry: LibraryEntry) => void): Promise<LibraryEntry> {
+    return this.queue(async () => {
+      const entries = await this.load();
+      const now = new Date().toISOString();
+
+      let entry = entries.find((candidate) => candidate.url === slideImage.url);
+      if (!entry) {
+        entry = { url: slideImage.url, slideImage, favorite: false, rating: null, addedAt: now, updatedAt: now };
+        entries.push(entry);
+      }
+      change(entry);
+      entry.slideImage = { ...slideImage, exif: undefined };
+      entry.updatedAt = now;
+
+      await this.write(entries.filter((candidate) => candidate.favorite || candidate.rating !== null));
+      return entry;
     });
   }
+
+  // Changes run one at a time, so pressing F and then a rating key cannot both start from the same file
+  private static queue<T>(change: () => Promise<T>): Promise<T> {
+    const result = this.pending.then(change);
+    this.pending = result.catch(() => {}); // A failed change does not hold up the next one
+    return result;
+  }
+
+  // Written to a temporary file of its own first, so an interrupted write never leaves half a library
+  private static async write(entries: LibraryEntry[]): Promise<void> {
+    const path = this.path();
+    if (!path) {
+      throw new Error("no data directory: set HOME or XDG_DATA_HOME");
+    }
+
+    const temporary = `${path}.${crypto.randomUUID()}.tmp`;
+    await Deno.mkdir(dirname(path), { recursive: true });
+    await Deno.writeTextFile(temporary, JSON.stringify(entries, null, 2) + "\n");
+    await Deno.rename(temporary, path);
+    this.entries = entries;
+  }
 }
 
-// Loading animation class
+// Replays favourite slides from the library, the better rated ones more often
+class FavoritesFetcher implements ImageFetcher {
+  private static readonly UNRATED_WEIGHT = 3; // A favourite without stars counts as three
+  private lastUrl: string | null = null;
+
+  async fetchRandomImage(config: Config): Promise<SlideImage | null> {
+    let favorites: LibraryEntry[];
+    try {
+      favorites = (await Library.load()).filter((entry) => entry.favorite);
+    } catch (error) {
+      Logger.error(`Failed to read the library: ${(error as Error).message}`, error as Error);
+      return null;
+    }
+
+    // --tags keeps the favourites with at least one of the tags
+    if (config.customTags && config.customTags.length > 0) {
+      const wanted = config.customTags.map((tag) => tag.toLowerCase());
+      favorites = favorites.filter((entry) =>
+        entry.slideImage.tags?.some((tag) => wanted.includes(tag.toLowerCase()))
+      );
+    }
+
+    favorites = favorites.filter((entry) => !Blocklist.blocks(entry.slideImage));
+
+    if (favorites.length === 0) {
+      Logger.error("No favourites to show yet: press F on a slide to add it");
+      return null;
+    }
+
+    // The slide just shown is only repeated when it is the only favourite
+    const candidates = favorites.length > 1 ? favorites.filter((entry) => entry.url !== this.lastUrl) : favorites;
+    const weights = candidates.map((entry) => entry.rating ?? FavoritesFetcher.UNRATED_WEIGHT);
+    let pick = Math.random() * weights.reduce((sum, weight) => sum + weight, 0);
+    const chosen = candidates.find((_, i) => (pick -= weights[i]) < 0) ?? candidates[candidates.length - 1];
+
+    this.lastUrl = chosen.url;
+    Logger.success(`Picked favourite: ${chosen.url}`);
+    return Library.toSlideImage(chosen);
+  }
+
+  listAllTags(): void {
+    console.log(`\n${bold(brightCyan("Favorites:"))}`);
+    console.log(`${green("•")} Replays the slides favourited with F, weighted by their 1-5 star rating`);
+    console.log(`${green("•")} Tags: ${white("the tags of your favourites; list them with tty-slide library")}`);
+  }
+
+  getTags(): string[] {
+    return [...new Set(Library.cached().flatMap((entry) => entry.favorite ? entry.slideImage.tags ?? [] : []))];
+  }
+
+  getSource(): string {
+    return "Favorites";
+  }
+}
+
+// Image fetcher registry
+class FetcherRegistry {
+  private static fetchers: Map<string, ImageFetcher> = new Map([
+    ["waifu", new WaifuFetcher()],
+    ["pexels", new PexelsFetcher()],
+    ["favorites", new FavoritesFetcher()],
+  ]);
+  private static directories = new Map<string, LocalDirectoryFetcher>();
+
+  static getFetcher(source: string): ImageFetcher | null {
+    // Check if it's a predefined source
+    const predefinedFetcher = this.fetchers.get(source);
+    if (predefinedFetcher) {
+      return predefinedFetcher;
+    }
+
+    // Check if it's a directory path; the fetcher is kept, since it remembers the --sort position
+    if (this.isDirectoryPath(source)) {
+      const fetcher = this.directories.get(source) ?? new LocalDirectoryFetcher(source);
+      this.directories.set(source, fetcher);
+      return fetcher;
+    }
+
+    return null;
+  }
+
+  // Names of the predefined sources, without "random" and directories
+  static getSourceNames(): string[] {
+    return [...this.fetchers.keys()];
+  }
+
+  // Tags of a source, or of every source "random" picks from
+  static getTags(source: string): string[] {
+    const fetchers = source === "random" ? this.getRandomCandidates() : [this.getFetcher(source)];
+    return [...new Set(fetchers.flatMap((fetcher) => fetcher?.getTags() ?? []))];
+  }
+
+  static isDirectoryPath(source: string): boolean {
+    // Check if the source looks like a path (contains / or \ or starts with . or ~)
+    return source.includes('/') || source.includes('\\') || source.startsWith('.') || source.startsWith('~') || source.startsWith('/');
+  }
+
+  static getRandomFetcher(): ImageFetcher {
+    const candidates = this.getRandomCandidates();
+    return candidates[Math.floor(Math.random() * candidates.length)];
+  }
+
+  // Favourites replay what the other sources showed, so "random" picks between those
+  private static getRandomCandidates(): ImageFetcher[] {
+    return [...this.fetchers.values()].filter((fetcher) => !(fetcher instanceof FavoritesFetcher));
+  }
+
+  static async listAllSources(): Promise<void> {
+    console.log(`\n${bold(brightCyan("Available Sources:"))}\n`);
+
+    this.fetchers.forEach((fetcher, source) => {
+      if (fetcher instanceof FavoritesFetcher) return;
+      console.log(`${green("•")} ${bold(white(source))} - ${fetcher.getSource()} API`);
+    });
+
+    console.log(`${green("•")} ${bold(white("favorites"))} - Replay the slides favourited with F, weighted by rating`);
+    console.log(`${green("•")} ${bold(white("random"))} - Randomly select from all sources`);
+    console.log(`${green("•")} ${bold(white("/path/to/dir"))} - Use local directory (automatically sets --no-save)`);
+
+    console.log(`\n${bold(brightCyan("Image Formats:"))}\n`);
+
+    const converterNames: Record<FormatConverterKind, string> = {
+      builtin: "built-in decoder",
+      imagemagick: `converted with ImageMagick (${await FormatConverter.findImageMagick()})`,
+      ffmpeg: "converted with ffmpeg",
+    };
+
+    for (const capability of await FormatConverter.getCapabilities()) {
+      const status = capability.converter
+        ? green(converterNames[capability.converter])
+        : yellow(`unavailable - install ${FormatConverter.converterHint(capability.format)} to convert it`);
+      console.log(`${green("•")} ${bold(white(capability.label.padEnd(4)))} - ${status}`);
+    }
+  }
+
+  static listAllTags(): void {
+    this.fetchers.forEach((fetcher) => {
+      fetcher.listAllTags();
+      console.log(); // Add spacing between sources
+    });
+  }
+}
+
+// Loading animation class
 class LoadingAnimation {
   private static isRunning = false;
   private static intervalId: number | null = null;
   private static frames = ["⠋", "⠙", "⠹", "⠸", "⠼", "⠴", "⠦", "⠧", "⠇", "⠏"];
   private static currentFrame = 0;
+  private static message = "";
 
   static start(message = "Loading..."): void {
-    if (this.isRunning) return;
+    // Nobody sees a spinner in a pipe or log file
+    if (this.isRunning || !Deno.stdout.isTerminal()) return;
 
     this.isRunning = true;
     this.currentFrame = 0;
+    this.message = message;
 
     // Hide cursor
-    Deno.stdout.writeSync(new TextEncoder().encode("\x1b[?25l"));
+    if (!ScreenCompositor.isActive()) {
+      this.write("\x1b[?25l");
+    }
 
     this.intervalId = setInterval(() => {
       const terminalWidth = TerminalUtils.getTerminalWidth();
-      const spinner = brightCyan(this.frames[this.currentFrame]);
-      const text = `${spinner} ${white(message)}`;
-      const padding = Math.max(0, Math.floor((terminalWidth - message.length - 2) / 2));
+      const spinner = Theme.paint("title", this.frames[this.currentFrame]);
+      const text = `${spinner} ${Theme.paint("text", this.message)}`;
+      const padding = Math.max(0, Math.floor((terminalWidth - this.message.length - 2) / 2));
       const centeredText = " ".repeat(padding) + text;
 
-      // Clear current line and write centered loading text
-      Deno.stdout.writeSync(new TextEncoder().encode(`\r\x1b[K${centeredText}`));
+      if (ScreenCompositor.isActive()) {
+        // The slideshow screen shows the spinner in the status line, below the image
+        ScreenCompositor.set("status", [centeredText]);
+        ScreenCompositor.flushInBackground();
+      } else {
+        // Clear current line and write centered loading text
+        this.write(`\r\x1b[K${centeredText}`);
+      }
 
       this.currentFrame = (this.currentFrame + 1) % this.frames.length;
     }, 80);
@@ -824,540 +1743,6437 @@ class LoadingAnimation {
       this.intervalId = null;
     }
 
+    if (ScreenCompositor.isActive()) {
+      // The cursor stays hidden until the compositor leaves the alternate screen
+      ScreenCompositor.set("status", []);
+      ScreenCompositor.flushInBackground();
+      return;
+    }
+
     // Clear the current line thoroughly and show cursor
     // \r moves to beginning of line, \x1b[K clears from cursor to end of line
     // \x1b[2K clears the entire line, \x1b[?25h shows cursor
-    Deno.stdout.writeSync(new TextEncoder().encode("\r\x1b[2K\x1b[?25h"));
+    this.write("\r\x1b[2K\x1b[?25h");
   }
 
-  static updateMessage(_message: string): void {
+  static updateMessage(message: string): void {
     if (!this.isRunning) return;
 
-    // The interval will pick up the new message on next update
-    // For immediate update, we could store the message in a class property
+    // The interval picks up the new message on its next frame
+    this.message = message;
+  }
+
+  // Outside the slideshow screen the spinner draws itself, and goes into a --record recording as compositor frames do
+  private static write(text: string): void {
+    Deno.stdout.writeSync(new TextEncoder().encode(text));
+    SessionRecorder.output(text);
   }
 }
 
-// Image processor and display manager
-class ImageProcessor {
-  static async downloadImage(
-    url: string,
-    timeout: number,
-  ): Promise<Uint8Array> {
-    // Handle local file URLs
-    if (url.startsWith('file://')) {
-      const filePath = url.replace('file://', '');
-      try {
-        const buffer = await Deno.readFile(filePath);
-        Logger.info(
-          `Read local file: ${(buffer.length / 1024 / 1024).toFixed(2)}MB`,
-        );
-        return buffer;
-      } catch (error) {
-        throw new Error(`Failed to read local file: ${(error as Error).message}`);
-      }
-    }
+// Error raised when a renderer fails to draw an image
+class RenderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RenderError";
+  }
+}
 
-    // Handle remote URLs
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), timeout);
+// Area available for the image, in terminal cells
+interface RenderArea {
+  columns: number;
+  rows: number;
+}
 
-    try {
-      const response = await fetch(url, { signal: controller.signal });
+// Decoded image as packed 8-bit RGB pixels
+interface RgbImage {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
 
-      if (!response.ok) {
-        throw new Error(`Failed to download image: ${response.status}`);
-      }
+// Pixel dimensions of an image
+interface ImageDimensions {
+  width: number;
+  height: number;
+}
 
-      const buffer = new Uint8Array(await response.arrayBuffer());
-      Logger.info(
-        `Downloaded image: ${(buffer.length / 1024 / 1024).toFixed(2)}MB`,
-      );
-      return buffer;
-    } finally {
-      clearTimeout(timeoutId);
-    }
-  }
+// Image container formats recognised by their magic bytes
+type ImageFormat = "jpeg" | "png" | "gif" | "bmp" | "webp" | "heic";
 
-  static async displayImage(buffer: Uint8Array, config: Config): Promise<void> {
-    const tmpFile = await Deno.makeTempFile({
-      suffix: ".jpg",
-      prefix: "slide-",
-    });
+// Reads image format and dimensions from file headers without decoding the pixels
+class ImageHeader {
+  // HEIF major brands for still images and image sequences
+  private static readonly HEIF_BRANDS = ["heic", "heix", "hevc", "hevx", "heim", "heis", "mif1", "msf1"];
 
-    try {
-      await Deno.writeFile(tmpFile, buffer);
+  static sniffFormat(buffer: Uint8Array): ImageFormat | null {
+    if (buffer.length < 12) return null;
 
-      // Check jp2a version to determine if -c flag is supported
-      const jp2aVersion = await DependencyChecker.getJp2aVersion();
-      const supportsCenterFlag = jp2aVersion && DependencyChecker.compareVersions(jp2aVersion, "1.3.2") >= 0;
+    const ascii = (offset: number, length: number) =>
+      String.fromCharCode(...buffer.subarray(offset, offset + length));
 
-      const args = ["-b"]; // Always include -b (inverted)
+    if (buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) return "jpeg";
+    if (buffer[0] === 0x89 && ascii(1, 3) === "PNG") return "png";
+    if (ascii(0, 4) === "GIF8") return "gif";
+    if (ascii(0, 2) === "BM") return "bmp";
+    if (ascii(0, 4) === "RIFF" && ascii(8, 4) === "WEBP") return "webp";
+    if (ascii(4, 4) === "ftyp" && this.HEIF_BRANDS.includes(ascii(8, 4))) return "heic";
+    return null;
+  }
 
-      // Only add -c flag if supported (for centering)
-      if (supportsCenterFlag) {
-        args.push("-c");
+  // True for GIFs with more than one image and APNGs with more than one frame
+  static isAnimated(buffer: Uint8Array): boolean {
+    const format = this.sniffFormat(buffer);
+    const view = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+
+    if (format === "png") {
+      // acTL must appear before the first IDAT
+      let offset = 8;
+      while (offset + 12 <= buffer.length) {
+        const type = String.fromCharCode(...buffer.subarray(offset + 4, offset + 8));
+        if (type === "acTL") return view.getUint32(offset + 8) > 1;
+        if (type === "IDAT") return false;
+        offset += 12 + view.getUint32(offset);
       }
+      return false;
+    }
 
-      if (config.colors) {
-        args.push("--colors");
+    if (format === "gif") {
+      const skipSubBlocks = (offset: number) => {
+        while (offset < buffer.length && buffer[offset] !== 0) offset += buffer[offset] + 1;
+        return offset + 1;
+      };
+
+      let offset = 13 + (buffer[10] & 0x80 ? 3 << ((buffer[10] & 7) + 1) : 0);
+      let images = 0;
+      while (offset < buffer.length) {
+        const introducer = buffer[offset];
+        if (introducer === 0x21) {
+          offset = skipSubBlocks(offset + 2);
+        } else if (introducer === 0x2c) {
+          if (++images > 1) return true;
+          const flags = buffer[offset + 9];
+          offset += 10 + (flags & 0x80 ? 3 << ((flags & 7) + 1) : 0);
+          offset = skipSubBlocks(offset + 1); // LZW minimum code size, then image data
+        } else {
+          break;
+        }
       }
+    }
 
-      // Always reserve space for progress bar and controls header, then size image to fit
-      const terminalSize = TerminalUtils.getTerminalSize();
-      const reservedLines = 3; // Controls header + progress bar + padding
-      const availableHeight = Math.max(10, terminalSize.rows - reservedLines);
-      const availableWidth = Math.max(40, terminalSize.columns - 4); // Reserve 2 chars padding on each side
+    return false;
+  }
 
-      // Calculate aspect ratios to determine the best fit strategy
-      const terminalAspectRatio = availableWidth / availableHeight;
+  static parse(buffer: Uint8Array): ImageDimensions | null {
+    if (buffer.length < 30) return null;
 
-      // Use a threshold to determine if we should constrain by width or height
-      // For most terminals, width is typically 2-3x the height in character terms
-      // If terminal is very wide (landscape-like), constrain by height to avoid tiny images
-      // If terminal is tall/square, constrain by width to fit properly
-      if (terminalAspectRatio > 2.5) {
-        // Wide terminal: constrain by height, let width adjust proportionally
-        args.push("--height=" + availableHeight);
-      } else {
-        // Tall/square terminal: constrain by width, let height adjust proportionally
-        args.push("--width=" + availableWidth);
-      }
+    const view = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+    const ascii = (offset: number, length: number) =>
+      String.fromCharCode(...buffer.subarray(offset, offset + length));
 
-      if (config.fill) {
-        // jp2a --fill flag: fills background of ASCII art with ANSI color
-        args.push("--fill");
-      }
+    // PNG: IHDR is always the first chunk
+    if (buffer[0] === 0x89 && ascii(1, 3) === "PNG") {
+      return { width: view.getUint32(16), height: view.getUint32(20) };
+    }
 
-      args.push(tmpFile);
+    // GIF: logical screen size
+    if (ascii(0, 4) === "GIF8") {
+      return { width: view.getUint16(6, true), height: view.getUint16(8, true) };
+    }
 
-      Logger.debug(`jp2a command: jp2a ${args.join(" ")}`);
+    // BMP: BITMAPINFOHEADER, negative height means top-down rows
+    if (ascii(0, 2) === "BM") {
+      return { width: Math.abs(view.getInt32(18, true)), height: Math.abs(view.getInt32(22, true)) };
+    }
 
-      try {
-        if (supportsCenterFlag) {
-          // Let jp2a handle everything (centering, sizing) and output directly to terminal
-          const jp2a = new Deno.Command("jp2a", {
-            args: args,
-            stdout: "inherit", // Direct output to terminal for best sizing
-            stderr: "piped",
-          });
-
-          const output = await jp2a.output();
-
-          if (output.code !== 0) {
-            const errorText = new TextDecoder().decode(output.stderr);
-            throw new Error(`jp2a failed with exit code ${output.code}: ${errorText}`);
-          }
-        } else {
-          // For older jp2a versions, capture output and center manually
-          const jp2a = new Deno.Command("jp2a", {
-            args: args,
-            stdout: "piped",
-            stderr: "piped",
-          });
-
-          const output = await jp2a.output();
-
-          if (output.code !== 0) {
-            const errorText = new TextDecoder().decode(output.stderr);
-            throw new Error(`jp2a failed with exit code ${output.code}: ${errorText}`);
-          }
+    // WebP: lossy, lossless and extended containers
+    if (ascii(0, 4) === "RIFF" && ascii(8, 4) === "WEBP") {
+      const chunk = ascii(12, 4);
+      if (chunk === "VP8 ") {
+        return { width: view.getUint16(26, true) & 0x3fff, height: view.getUint16(28, true) & 0x3fff };
+      }
+      if (chunk === "VP8L") {
+        const bits = view.getUint32(21, true);
+        return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+      }
+      if (chunk === "VP8X") {
+        const width = buffer[24] | (buffer[25] << 8) | (buffer[26] << 16);
+        const height = buffer[27] | (buffer[28] << 8) | (buffer[29] << 16);
+        return { width: width + 1, height: height + 1 };
+      }
+      return null;
+    }
 
-          // Get the ASCII output and center it manually
-          const asciiOutput = new TextDecoder().decode(output.stdout);
-          this.centerAndDisplayAscii(asciiOutput);
+    // JPEG: walk the marker segments up to the first SOFn
+    if (buffer[0] === 0xff && buffer[1] === 0xd8) {
+      let offset = 2;
+      while (offset + 9 < buffer.length) {
+        if (buffer[offset] !== 0xff) {
+          offset++;
+          continue;
         }
-      } catch (error) {
-        // Graceful error handling for jp2a failures
-        this.displayErrorMessage(error as Error, config);
-        throw error; // Re-throw to let caller handle continuation
-      }
-    } finally {
-      try {
-        await Deno.remove(tmpFile);
-      } catch {
-        // Ignore cleanup errors
+        const marker = buffer[offset + 1];
+        if (marker === 0xff) {
+          offset++;
+          continue;
+        }
+        const isFrame = marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+        if (isFrame) {
+          return { width: view.getUint16(offset + 7), height: view.getUint16(offset + 5) };
+        }
+        offset += 2 + view.getUint16(offset + 2);
       }
     }
+
+    return null;
   }
+}
 
-  private static displayErrorMessage(error: Error, _config: Config): void {
-    const terminalSize = TerminalUtils.getTerminalSize();
-    const terminalWidth = terminalSize.columns;
+// Camera metadata read from a JPEG's EXIF block
+interface ExifData {
+  camera?: string; // Make and model
+  lens?: string;
+  exposureTime?: number; // Seconds
+  fNumber?: number;
+  iso?: number;
+  focalLength?: number; // Millimetres
+  dateTaken?: Date;
+  latitude?: number; // Decimal degrees, negative south of the equator
+  longitude?: number; // Decimal degrees, negative west of Greenwich
+  orientation: number; // 1 is upright, 2-8 are the mirrored and rotated variants
+}
 
-    // Clear screen but keep the header
-    console.clear();
-    console.log(brightCyan("🎮 TTY Slide - Keyboard Controls:"));
-    console.log(`${green("SPACE")} - Pause/Resume | ${green("N/→")} - Skip | ${green("S")} - Save | ${green("Q")} - Quit\n`);
+// Value of a TIFF directory entry: text, one number or several
+type IfdValue = string | number | number[];
+
+// Reads the EXIF APP1 segment of JPEG files (TIFF structure, both byte orders)
+class ExifReader {
+  private static readonly TAGS = {
+    make: 0x010f,
+    model: 0x0110,
+    orientation: 0x0112,
+    exifIfd: 0x8769,
+    gpsIfd: 0x8825,
+    exposureTime: 0x829a,
+    fNumber: 0x829d,
+    iso: 0x8827,
+    dateTimeOriginal: 0x9003,
+    focalLength: 0x920a,
+    lensModel: 0xa434,
+    gpsLatitudeRef: 0x0001,
+    gpsLatitude: 0x0002,
+    gpsLongitudeRef: 0x0003,
+    gpsLongitude: 0x0004,
+  };
 
-    // Create error display
-    const errorLines = [
-      "❌ Failed to convert image to ASCII art",
-      "",
-      "Possible causes:",
-      "• Corrupted or unsupported image format",
-      "• jp2a encountered an internal error",
-      "• Insufficient system resources",
-      "",
-      "The slideshow will continue with the next image...",
-      "",
-      `Error details: ${error.message}`,
-    ];
+  // Bytes per value of the TIFF field types, by type number
+  private static readonly TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
 
-    // Center the error message
-    const maxLineLength = Math.max(...errorLines.map(line => line.length));
-    const padding = Math.max(0, Math.floor((terminalWidth - maxLineLength) / 2));
+  // Returns null for anything but a JPEG with a readable EXIF block
+  static parse(buffer: Uint8Array): ExifData | null {
+    const tiff = this.findTiff(buffer);
+    if (tiff === null) return null;
 
-    // Add some vertical padding
-    console.log("\n".repeat(Math.floor(terminalSize.rows / 4)));
+    try {
+      const view = new DataView(buffer.buffer, buffer.byteOffset + tiff, buffer.byteLength - tiff);
+      const order = String.fromCharCode(view.getUint8(0), view.getUint8(1));
+      if (order !== "II" && order !== "MM") return null;
+      const little = order === "II";
+
+      const ifd0 = this.readIfd(view, view.getUint32(4, little), little);
+      const exifIfd = ifd0.has(this.TAGS.exifIfd)
+        ? this.readIfd(view, ifd0.get(this.TAGS.exifIfd) as number, little)
+        : new Map<number, IfdValue>();
+      const gpsIfd = ifd0.has(this.TAGS.gpsIfd)
+        ? this.readIfd(view, ifd0.get(this.TAGS.gpsIfd) as number, little)
+        : new Map<number, IfdValue>();
+
+      const text = (ifd: Map<number, IfdValue>, tag: number) => {
+        const value = ifd.get(tag);
+        return typeof value === "string" && value.trim() ? value.trim() : undefined;
+      };
+      const number = (ifd: Map<number, IfdValue>, tag: number) => {
+        const value = ifd.get(tag);
+        const first = Array.isArray(value) ? value[0] : value;
+        return typeof first === "number" && isFinite(first) && first > 0 ? first : undefined;
+      };
 
-    errorLines.forEach(line => {
-      if (line === "") {
-        console.log();
-        return;
-      }
+      // Many cameras repeat the make at the start of the model ("Canon" + "Canon EOS R6")
+      const make = text(ifd0, this.TAGS.make);
+      const model = text(ifd0, this.TAGS.model);
+      const camera = make && model && !model.toLowerCase().startsWith(make.toLowerCase().split(" ")[0])
+        ? `${make} ${model}`
+        : model ?? make;
 
-      let coloredLine = line;
-      if (line.startsWith("❌")) {
-        coloredLine = red(line);
-      } else if (line.startsWith("•")) {
-        coloredLine = yellow(line);
-      } else if (line.startsWith("The slideshow")) {
-        coloredLine = green(line);
-      } else if (line.startsWith("Error details:")) {
-        coloredLine = dim(line);
-      } else if (line === "Possible causes:") {
-        coloredLine = brightYellow(line);
-      }
+      const orientation = number(ifd0, this.TAGS.orientation) ?? 1;
 
-      const centeredLine = " ".repeat(padding) + coloredLine;
-      console.log(centeredLine);
-    });
+      return {
+        camera,
+        lens: text(exifIfd, this.TAGS.lensModel),
+        exposureTime: number(exifIfd, this.TAGS.exposureTime),
+        fNumber: number(exifIfd, this.TAGS.fNumber),
+        iso: number(exifIfd, this.TAGS.iso),
+        focalLength: number(exifIfd, this.TAGS.focalLength),
+        dateTaken: this.parseDate(text(exifIfd, this.TAGS.dateTimeOriginal)),
+        latitude: this.parseCoordinate(gpsIfd, this.TAGS.gpsLatitude, this.TAGS.gpsLatitudeRef, "S"),
+        longitude: this.parseCoordinate(gpsIfd, this.TAGS.gpsLongitude, this.TAGS.gpsLongitudeRef, "W"),
+        orientation: orientation >= 1 && orientation <= 8 ? orientation : 1,
+      };
+    } catch (error) {
+      // Offsets pointing outside the segment: treat the block as missing rather than failing the slide
+      Logger.debug(`Ignoring malformed EXIF data: ${(error as Error).message}`);
+      return null;
+    }
   }
 
-  private static centerAndDisplayAscii(asciiOutput: string): void {
-    const lines = asciiOutput.split('\n');
-    const terminalWidth = TerminalUtils.getTerminalWidth();
+  // Orientations 5-8 swap width and height
+  static isTransposed(orientation: number): boolean {
+    return orientation >= 5;
+  }
 
-    lines.forEach(line => {
-      if (line.trim().length === 0) {
-        console.log(); // Preserve empty lines
-        return;
+  // Offset of the TIFF header inside the "Exif\0\0" APP1 segment
+  private static findTiff(buffer: Uint8Array): number | null {
+    if (buffer[0] !== 0xff || buffer[1] !== 0xd8) return null;
+
+    let offset = 2;
+    while (offset + 4 < buffer.length) {
+      if (buffer[offset] !== 0xff) return null;
+      const marker = buffer[offset + 1];
+      if (marker === 0xff) {
+        offset++;
+        continue;
       }
+      // Image data starts at SOS; EXIF always comes before it
+      if (marker === 0xda || marker === 0xd9) return null;
+
+      const length = (buffer[offset + 2] << 8) | buffer[offset + 3];
+      const isExif = marker === 0xe1 &&
+        String.fromCharCode(...buffer.subarray(offset + 4, offset + 10)) === "Exif\0\0";
+      if (isExif) return offset + 10;
+      offset += 2 + length;
+    }
+    return null;
+  }
 
-      // Calculate padding to center the line
-      const padding = Math.max(0, Math.floor((terminalWidth - line.length) / 2));
-      const centeredLine = ' '.repeat(padding) + line;
-      console.log(centeredLine);
-    });
+  private static readIfd(view: DataView, offset: number, little: boolean): Map<number, IfdValue> {
+    const entries = new Map<number, IfdValue>();
+    const count = view.getUint16(offset, little);
+
+    for (let i = 0; i < count; i++) {
+      const entry = offset + 2 + i * 12;
+      const tag = view.getUint16(entry, little);
+      const type = view.getUint16(entry + 2, little);
+      const valueCount = view.getUint32(entry + 4, little);
+      const size = this.TYPE_SIZES[type];
+      if (!size) continue;
+
+      // Values of up to four bytes are stored in the entry itself, longer ones elsewhere
+      const start = size * valueCount <= 4 ? entry + 8 : view.getUint32(entry + 8, little);
+      entries.set(tag, this.readValue(view, start, type, valueCount, little));
+    }
+
+    return entries;
   }
 
-  static async saveImage(
-    buffer: Uint8Array,
-    slideImage: SlideImage,
-    outputDir: string,
-  ): Promise<void> {
-    // Clean filename and remove URL parameters
-    let fileName = "";
-    let subDir = "";
+  private static readValue(view: DataView, start: number, type: number, count: number, little: boolean): IfdValue {
+    if (type === 2) {
+      const bytes = new Uint8Array(view.buffer, view.byteOffset + start, count);
+      return new TextDecoder().decode(bytes).replace(/\0[\s\S]*$/, "");
+    }
 
-    if (slideImage.source === "pexels") {
-      // Extract clean filename from Pexels URL and remove query parameters
-      const urlParts = slideImage.url.split("/");
-      const rawFileName = urlParts[urlParts.length - 1] || `pexels-${Date.now()}.jpg`;
-      // Remove everything after ? to clean URL parameters
-      fileName = rawFileName.split("?")[0];
-      // Ensure it has an extension
-      if (!fileName.includes(".")) {
-        fileName += ".jpg";
+    const values: number[] = [];
+    for (let i = 0; i < Math.min(count, 16); i++) {
+      switch (type) {
+        case 1:
+        case 7:
+          values.push(view.getUint8(start + i));
+          break;
+        case 3:
+          values.push(view.getUint16(start + i * 2, little));
+          break;
+        case 4:
+          values.push(view.getUint32(start + i * 4, little));
+          break;
+        case 9:
+          values.push(view.getInt32(start + i * 4, little));
+          break;
+        case 5:
+          values.push(view.getUint32(start + i * 8, little) / view.getUint32(start + i * 8 + 4, little));
+          break;
+        case 10:
+          values.push(view.getInt32(start + i * 8, little) / view.getInt32(start + i * 8 + 4, little));
+          break;
       }
-      subDir = "pexels";
-    } else if (slideImage.source === "waifu") {
-      // Extract filename from Waifu URL
-      const urlParts = slideImage.url.split("/");
-      fileName = urlParts[urlParts.length - 1] || `waifu-${Date.now()}.jpg`;
+    }
+    return values.length === 1 ? values[0] : values;
+  }
+
+  // "2024:05:03 14:22:10" in the camera's local time
+  private static parseDate(value: string | undefined): Date | undefined {
+    const match = value?.match(/^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/);
+    if (!match) return undefined;
+    const [year, month, day, hour, minute, second] = match.slice(1).map((part) => parseInt(part));
+    const date = new Date(year, month - 1, day, hour, minute, second);
+    return isNaN(date.getTime()) || year === 0 ? undefined : date;
+  }
+
+  // Degrees, minutes and seconds plus a hemisphere letter
+  private static parseCoordinate(
+    gps: Map<number, IfdValue>,
+    tag: number,
+    refTag: number,
+    negative: string,
+  ): number | undefined {
+    const value = gps.get(tag);
+    if (!Array.isArray(value) || value.length < 3 || value.some((part) => !isFinite(part))) return undefined;
+
+    const degrees = value[0] + value[1] / 60 + value[2] / 3600;
+    return gps.get(refTag) === negative ? -degrees : degrees;
+  }
+}
+
+// Canonical Huffman table in the form used by the JPEG spec decoding procedure (F.2.2.3)
+interface HuffmanTable {
+  maxCode: Int32Array;
+  valPtr: Int32Array;
+  minCode: Int32Array;
+  values: Uint8Array;
+}
+
+interface JpegComponent {
+  id: number;
+  h: number;
+  v: number;
+  quantizationId: number;
+  blocksPerLine: number;
+  blocksPerColumn: number;
+  blocksPerLineForMcu: number;
+  blocksPerColumnForMcu: number;
+  blockData: Int16Array;
+  pred: number;
+  huffmanTableDC?: HuffmanTable;
+  huffmanTableAC?: HuffmanTable;
+}
+
+interface JpegFrame {
+  progressive: boolean;
+  width: number;
+  height: number;
+  components: JpegComponent[];
+  maxH: number;
+  maxV: number;
+  mcusPerLine: number;
+  mcusPerColumn: number;
+}
+
+// Pure TypeScript baseline and progressive JPEG decoder
+class JpegDecoder {
+  private static readonly ZIGZAG = new Int32Array([
+    0, 1, 8, 16, 9, 2, 3, 10, 17, 24, 32, 25, 18, 11, 4, 5, 12, 19, 26, 33, 40,
+    48, 41, 34, 27, 20, 13, 6, 7, 14, 21, 28, 35, 42, 49, 56, 57, 50, 43, 36,
+    29, 22, 15, 23, 30, 37, 44, 51, 58, 59, 52, 45, 38, 31, 39, 46, 53, 60, 61,
+    54, 47, 55, 62, 63,
+  ]);
+
+  // IDCT_TABLE[x * 8 + u] = C(u) * cos((2x + 1) * u * PI / 16) / 2
+  private static readonly IDCT_TABLE = (() => {
+    const table = new Float32Array(64);
+    for (let x = 0; x < 8; x++) {
+      for (let u = 0; u < 8; u++) {
+        const scale = u === 0 ? Math.SQRT1_2 : 1;
+        table[x * 8 + u] = scale * Math.cos(((2 * x + 1) * u * Math.PI) / 16) / 2;
+      }
+    }
+    return table;
+  })();
+
+  static decode(data: Uint8Array): RgbImage {
+    const quantizationTables: Uint16Array[] = [];
+    const dcTables: HuffmanTable[] = [];
+    const acTables: HuffmanTable[] = [];
+    let frame: JpegFrame | null = null;
+    let resetInterval = 0;
+    let adobeTransform: number | null = null;
+
+    const readUint16 = (offset: number) => (data[offset] << 8) | data[offset + 1];
+
+    if (readUint16(0) !== 0xffd8) {
+      throw new RenderError("JPEG decoding failed: missing SOI marker");
+    }
+
+    let offset = 2;
+    while (offset < data.length - 1) {
+      // Resynchronise on the next marker if there is garbage between segments
+      if (data[offset] !== 0xff) {
+        offset++;
+        continue;
+      }
+
+      const marker = readUint16(offset);
+      offset += 2;
+
+      if (marker === 0xffd9) break; // EOI
+      if (marker === 0xffff) { // Fill byte
+        offset--;
+        continue;
+      }
+      if (marker >= 0xffd0 && marker <= 0xffd7) continue; // Stray RSTn
+
+      const length = readUint16(offset);
+      const segmentStart = offset + 2;
+      const segmentEnd = offset + length;
+
+      switch (marker) {
+        case 0xffee: { // APP14: Adobe colour transform flag
+          const tag = String.fromCharCode(...data.subarray(segmentStart, segmentStart + 5));
+          if (tag === "Adobe") {
+            adobeTransform = data[segmentStart + 11];
+          }
+          break;
+        }
+
+        case 0xffdb: { // DQT
+          let p = segmentStart;
+          while (p < segmentEnd) {
+            const precision = data[p] >> 4;
+            const id = data[p] & 15;
+            p++;
+            const table = new Uint16Array(64);
+            for (let j = 0; j < 64; j++) {
+              if (precision) {
+                table[this.ZIGZAG[j]] = readUint16(p);
+                p += 2;
+              } else {
+                table[this.ZIGZAG[j]] = data[p++];
+              }
+            }
+            quantizationTables[id] = table;
+          }
+          break;
+        }
+
+        case 0xffc0: // SOF0 baseline
+        case 0xffc1: // SOF1 extended sequential
+        case 0xffc2: { // SOF2 progressive
+          frame = this.readFrame(data, segmentStart, marker === 0xffc2);
+          break;
+        }
+
+        case 0xffc3: case 0xffc5: case 0xffc6: case 0xffc7:
+        case 0xffc9: case 0xffca: case 0xffcb:
+        case 0xffcd: case 0xffce: case 0xffcf:
+          throw new RenderError("JPEG decoding failed: lossless and arithmetic coded JPEGs are not supported");
+
+        case 0xffc4: { // DHT
+          let p = segmentStart;
+          while (p < segmentEnd) {
+            const classAndId = data[p++];
+            const counts = data.subarray(p, p + 16);
+            p += 16;
+            const total = counts.reduce((sum, count) => sum + count, 0);
+            const table = this.buildHuffmanTable(counts, data.slice(p, p + total));
+            p += total;
+            if (classAndId >> 4 === 0) {
+              dcTables[classAndId & 15] = table;
+            } else {
+              acTables[classAndId & 15] = table;
+            }
+          }
+          break;
+        }
+
+        case 0xffdd: // DRI
+          resetInterval = readUint16(segmentStart);
+          break;
+
+        case 0xffda: { // SOS
+          if (!frame) {
+            throw new RenderError("JPEG decoding failed: scan before frame header");
+          }
+          let p = segmentStart;
+          const componentCount = data[p++];
+          const scanComponents: JpegComponent[] = [];
+          for (let i = 0; i < componentCount; i++) {
+            const componentId = data[p++];
+            const tables = data[p++];
+            const component = frame.components.find((c) => c.id === componentId);
+            if (!component) {
+              throw new RenderError("JPEG decoding failed: scan references unknown component");
+            }
+            component.huffmanTableDC = dcTables[tables >> 4];
+            component.huffmanTableAC = acTables[tables & 15];
+            scanComponents.push(component);
+          }
+          const spectralStart = data[p++];
+          const spectralEnd = data[p++];
+          const successiveApproximation = data[p++];
+
+          offset = segmentEnd;
+          offset = this.decodeScan(
+            data,
+            offset,
+            frame,
+            scanComponents,
+            resetInterval,
+            spectralStart,
+            spectralEnd,
+            successiveApproximation >> 4,
+            successiveApproximation & 15,
+          );
+          continue;
+        }
+      }
+
+      offset = segmentEnd;
+    }
+
+    if (!frame) {
+      throw new RenderError("JPEG decoding failed: no frame header found");
+    }
+
+    return this.buildImage(frame, quantizationTables, adobeTransform);
+  }
+
+  private static readFrame(data: Uint8Array, offset: number, progressive: boolean): JpegFrame {
+    const height = (data[offset + 1] << 8) | data[offset + 2];
+    const width = (data[offset + 3] << 8) | data[offset + 4];
+    const componentCount = data[offset + 5];
+
+    if (width === 0 || height === 0) {
+      throw new RenderError("JPEG decoding failed: invalid image dimensions");
+    }
+
+    const components: JpegComponent[] = [];
+    let p = offset + 6;
+    for (let i = 0; i < componentCount; i++) {
+      components.push({
+        id: data[p],
+        h: data[p + 1] >> 4 || 1,
+        v: data[p + 1] & 15 || 1,
+        quantizationId: data[p + 2],
+        blocksPerLine: 0,
+        blocksPerColumn: 0,
+        blocksPerLineForMcu: 0,
+        blocksPerColumnForMcu: 0,
+        blockData: new Int16Array(0),
+        pred: 0,
+      });
+      p += 3;
+    }
+
+    const maxH = Math.max(...components.map((c) => c.h));
+    const maxV = Math.max(...components.map((c) => c.v));
+    const mcusPerLine = Math.ceil(width / 8 / maxH);
+    const mcusPerColumn = Math.ceil(height / 8 / maxV);
+
+    for (const component of components) {
+      component.blocksPerLine = Math.ceil(Math.ceil((width * component.h) / maxH) / 8);
+      component.blocksPerColumn = Math.ceil(Math.ceil((height * component.v) / maxV) / 8);
+      component.blocksPerLineForMcu = mcusPerLine * component.h;
+      component.blocksPerColumnForMcu = mcusPerColumn * component.v;
+      component.blockData = new Int16Array(
+        64 * component.blocksPerLineForMcu * component.blocksPerColumnForMcu,
+      );
+    }
+
+    return { progressive, width, height, components, maxH, maxV, mcusPerLine, mcusPerColumn };
+  }
+
+  private static buildHuffmanTable(counts: Uint8Array, values: Uint8Array): HuffmanTable {
+    const maxCode = new Int32Array(18).fill(-1);
+    const valPtr = new Int32Array(17);
+    const minCode = new Int32Array(17);
+
+    let code = 0;
+    let k = 0;
+    for (let length = 1; length <= 16; length++) {
+      valPtr[length] = k;
+      minCode[length] = code;
+      code += counts[length - 1];
+      k += counts[length - 1];
+      maxCode[length] = counts[length - 1] ? code - 1 : -1;
+      code <<= 1;
+    }
+    maxCode[17] = 0x7fffffff; // Sentinel so decoding always terminates
+
+    return { maxCode, valPtr, minCode, values };
+  }
+
+  private static decodeScan(
+    data: Uint8Array,
+    startOffset: number,
+    frame: JpegFrame,
+    components: JpegComponent[],
+    resetInterval: number,
+    spectralStart: number,
+    spectralEnd: number,
+    successivePrev: number,
+    successive: number,
+  ): number {
+    const zigzag = this.ZIGZAG;
+    let offset = startOffset;
+    let bitsData = 0;
+    let bitsCount = 0;
+    let eobrun = 0;
+    let successiveACState = 0;
+    let successiveACNextValue = 0;
+
+    const readBit = (): number => {
+      if (bitsCount > 0) {
+        bitsCount--;
+        return (bitsData >> bitsCount) & 1;
+      }
+      bitsData = data[offset];
+      if (bitsData === undefined) {
+        return 0; // Truncated file: pad with zero bits
+      }
+      if (bitsData === 0xff) {
+        if (data[offset + 1] !== 0) {
+          return 0; // Hit a marker: stay on it and pad with zero bits
+        }
+        offset++; // Skip the stuffed zero byte
+      }
+      offset++;
+      bitsCount = 7;
+      return (bitsData >> 7) & 1;
+    };
+
+    const receive = (length: number): number => {
+      let n = 0;
+      while (length > 0) {
+        n = (n << 1) | readBit();
+        length--;
+      }
+      return n;
+    };
+
+    const receiveAndExtend = (length: number): number => {
+      if (length === 1) {
+        return readBit() ? 1 : -1;
+      }
+      const n = receive(length);
+      return n >= 1 << (length - 1) ? n : n + (-1 << length) + 1;
+    };
+
+    const decodeHuffman = (table: HuffmanTable | undefined): number => {
+      if (!table) {
+        throw new RenderError("JPEG decoding failed: missing Huffman table");
+      }
+      let code = readBit();
+      let length = 1;
+      while (code > table.maxCode[length]) {
+        code = (code << 1) | readBit();
+        length++;
+        if (length > 16) {
+          return 0; // Corrupt data: treat as end of block
+        }
+      }
+      return table.values[table.valPtr[length] + code - table.minCode[length]];
+    };
+
+    const decodeBaseline = (component: JpegComponent, blockOffset: number) => {
+      const t = decodeHuffman(component.huffmanTableDC);
+      const diff = t === 0 ? 0 : receiveAndExtend(t);
+      component.blockData[blockOffset] = component.pred += diff;
+      let k = 1;
+      while (k < 64) {
+        const rs = decodeHuffman(component.huffmanTableAC);
+        const s = rs & 15;
+        const r = rs >> 4;
+        if (s === 0) {
+          if (r < 15) break;
+          k += 16;
+          continue;
+        }
+        k += r;
+        if (k > 63) break;
+        component.blockData[blockOffset + zigzag[k]] = receiveAndExtend(s);
+        k++;
+      }
+    };
+
+    const decodeDCFirst = (component: JpegComponent, blockOffset: number) => {
+      const t = decodeHuffman(component.huffmanTableDC);
+      const diff = t === 0 ? 0 : receiveAndExtend(t) * (1 << successive);
+      component.blockData[blockOffset] = component.pred += diff;
+    };
+
+    const decodeDCSuccessive = (component: JpegComponent, blockOffset: number) => {
+      if (readBit()) {
+        component.blockData[blockOffset] |= 1 << successive;
+      }
+    };
+
+    const decodeACFirst = (component: JpegComponent, blockOffset: number) => {
+      if (eobrun > 0) {
+        eobrun--;
+        return;
+      }
+      let k = spectralStart;
+      while (k <= spectralEnd) {
+        const rs = decodeHuffman(component.huffmanTableAC);
+        const s = rs & 15;
+        const r = rs >> 4;
+        if (s === 0) {
+          if (r < 15) {
+            eobrun = receive(r) + (1 << r) - 1;
+            break;
+          }
+          k += 16;
+          continue;
+        }
+        k += r;
+        if (k > 63) break;
+        component.blockData[blockOffset + zigzag[k]] = receiveAndExtend(s) * (1 << successive);
+        k++;
+      }
+    };
+
+    const decodeACSuccessive = (component: JpegComponent, blockOffset: number) => {
+      const blockData = component.blockData;
+      let k = spectralStart;
+      let r = 0;
+      while (k <= spectralEnd) {
+        const z = blockOffset + zigzag[k];
+        const sign = blockData[z] < 0 ? -1 : 1;
+        switch (successiveACState) {
+          case 0: { // Read the next run/size symbol
+            const rs = decodeHuffman(component.huffmanTableAC);
+            const s = rs & 15;
+            r = rs >> 4;
+            if (s === 0) {
+              if (r < 15) {
+                eobrun = receive(r) + (1 << r);
+                successiveACState = 4;
+              } else {
+                r = 16;
+                successiveACState = 1;
+              }
+            } else {
+              successiveACNextValue = receiveAndExtend(s);
+              successiveACState = r ? 2 : 3;
+            }
+            continue;
+          }
+          case 1: // Skipping r zero coefficients
+          case 2:
+            if (blockData[z]) {
+              blockData[z] += sign * (readBit() << successive);
+            } else {
+              r--;
+              if (r === 0) {
+                successiveACState = successiveACState === 2 ? 3 : 0;
+              }
+            }
+            break;
+          case 3: // Place the new coefficient at the next zero position
+            if (blockData[z]) {
+              blockData[z] += sign * (readBit() << successive);
+            } else {
+              blockData[z] = successiveACNextValue << successive;
+              successiveACState = 0;
+            }
+            break;
+          case 4: // End of band: only refine existing coefficients
+            if (blockData[z]) {
+              blockData[z] += sign * (readBit() << successive);
+            }
+            break;
+        }
+        k++;
+      }
+      if (successiveACState === 4) {
+        eobrun--;
+        if (eobrun === 0) {
+          successiveACState = 0;
+        }
+      }
+    };
+
+    let decodeFn = decodeBaseline;
+    if (frame.progressive) {
+      if (spectralStart === 0) {
+        decodeFn = successivePrev === 0 ? decodeDCFirst : decodeDCSuccessive;
+      } else {
+        decodeFn = successivePrev === 0 ? decodeACFirst : decodeACSuccessive;
+      }
+    }
+
+    const blockOffset = (component: JpegComponent, row: number, col: number) =>
+      64 * (component.blocksPerLineForMcu * row + col);
+
+    const singleComponent = components.length === 1;
+    const mcuExpected = singleComponent
+      ? components[0].blocksPerLine * components[0].blocksPerColumn
+      : frame.mcusPerLine * frame.mcusPerColumn;
+
+    let mcu = 0;
+    while (mcu < mcuExpected) {
+      const mcuToRead = resetInterval ? Math.min(mcuExpected - mcu, resetInterval) : mcuExpected;
+
+      for (const component of components) {
+        component.pred = 0;
+      }
+      eobrun = 0;
+      successiveACState = 0;
+
+      for (let n = 0; n < mcuToRead; n++, mcu++) {
+        if (singleComponent) {
+          // Non-interleaved scans cover only the blocks inside the image
+          const component = components[0];
+          const row = Math.floor(mcu / component.blocksPerLine);
+          const col = mcu % component.blocksPerLine;
+          decodeFn(component, blockOffset(component, row, col));
+        } else {
+          const mcuRow = Math.floor(mcu / frame.mcusPerLine);
+          const mcuCol = mcu % frame.mcusPerLine;
+          for (const component of components) {
+            for (let v = 0; v < component.v; v++) {
+              for (let h = 0; h < component.h; h++) {
+                const row = mcuRow * component.v + v;
+                const col = mcuCol * component.h + h;
+                decodeFn(component, blockOffset(component, row, col));
+              }
+            }
+          }
+        }
+      }
+
+      // Find the next marker: a restart marker continues the scan, anything else ends it
+      bitsCount = 0;
+      while (offset < data.length - 1 && !(data[offset] === 0xff && data[offset + 1] !== 0 && data[offset + 1] !== 0xff)) {
+        offset++;
+      }
+      if (offset >= data.length - 1) break;
+
+      const marker = data[offset + 1];
+      if (marker >= 0xd0 && marker <= 0xd7) {
+        offset += 2;
+      } else {
+        break;
+      }
+    }
+
+    return offset;
+  }
+
+  private static buildImage(
+    frame: JpegFrame,
+    quantizationTables: Uint16Array[],
+    adobeTransform: number | null,
+  ): RgbImage {
+    // Dequantize and inverse DCT every block into one sample plane per component
+    const planes = frame.components.map((component) => {
+      const stride = component.blocksPerLineForMcu * 8;
+      const plane = new Uint8ClampedArray(stride * component.blocksPerColumnForMcu * 8);
+      const table = quantizationTables[component.quantizationId];
+      if (!table) {
+        throw new RenderError("JPEG decoding failed: missing quantization table");
+      }
+
+      for (let row = 0; row < component.blocksPerColumn; row++) {
+        for (let col = 0; col < component.blocksPerLine; col++) {
+          const offset = 64 * (component.blocksPerLineForMcu * row + col);
+          this.inverseDct(component.blockData, offset, table, plane, row * 8 * stride + col * 8, stride);
+        }
+      }
+
+      return { plane, stride, component };
+    });
+
+    const { width, height } = frame;
+    const rgb = new Uint8Array(width * height * 3);
+    const sample = new Float32Array(planes.length);
+
+    // Precompute the nearest source column for each output column in every plane
+    const columnMaps = planes.map(({ component }) => {
+      const map = new Int32Array(width);
+      for (let x = 0; x < width; x++) {
+        map[x] = Math.floor((x * component.h) / frame.maxH);
+      }
+      return map;
+    });
+
+    const transform = adobeTransform ?? (planes.length === 3 ? 1 : 0);
+
+    for (let y = 0; y < height; y++) {
+      const rowOffsets = planes.map(({ stride, component }) =>
+        Math.floor((y * component.v) / frame.maxV) * stride
+      );
+
+      for (let x = 0; x < width; x++) {
+        for (let i = 0; i < planes.length; i++) {
+          sample[i] = planes[i].plane[rowOffsets[i] + columnMaps[i][x]];
+        }
+
+        let r: number;
+        let g: number;
+        let b: number;
+
+        if (planes.length === 1) {
+          r = g = b = sample[0];
+        } else if (planes.length === 3 && transform === 0) {
+          r = sample[0];
+          g = sample[1];
+          b = sample[2];
+        } else {
+          // YCbCr (and the YCC part of YCCK) to RGB
+          if (transform !== 0) {
+            const luma = sample[0];
+            const cb = sample[1] - 128;
+            const cr = sample[2] - 128;
+            r = luma + 1.402 * cr;
+            g = luma - 0.344136 * cb - 0.714136 * cr;
+            b = luma + 1.772 * cb;
+          } else {
+            r = sample[0];
+            g = sample[1];
+            b = sample[2];
+          }
+
+          // Adobe CMYK is stored inverted, so multiplying by K gives RGB directly
+          if (planes.length === 4) {
+            const k = sample[3] / 255;
+            r *= k;
+            g *= k;
+            b *= k;
+          }
+        }
+
+        const p = (y * width + x) * 3;
+        rgb[p] = r < 0 ? 0 : r > 255 ? 255 : r;
+        rgb[p + 1] = g < 0 ? 0 : g > 255 ? 255 : g;
+        rgb[p + 2] = b < 0 ? 0 : b > 255 ? 255 : b;
+      }
+    }
+
+    return { width, height, data: rgb };
+  }
+
+  private static readonly idctBuffer = new Float32Array(64);
+
+  private static inverseDct(
+    coefficients: Int16Array,
+    offset: number,
+    table: Uint16Array,
+    out: Uint8ClampedArray,
+    outOffset: number,
+    stride: number,
+  ): void {
+    // Fast path: blocks with only a DC coefficient are flat
+    let hasAc = false;
+    for (let i = 1; i < 64; i++) {
+      if (coefficients[offset + i] !== 0) {
+        hasAc = true;
+        break;
+      }
+    }
+
+    if (!hasAc) {
+      const value = (coefficients[offset] * table[0]) / 8 + 128;
+      for (let y = 0; y < 8; y++) {
+        out.fill(value, outOffset + y * stride, outOffset + y * stride + 8);
+      }
+      return;
+    }
+
+    const idct = this.IDCT_TABLE;
+    const temp = this.idctBuffer;
+
+    // Rows: temp[v][x] = sum over u of T[x][u] * F[v][u]
+    for (let v = 0; v < 8; v++) {
+      for (let x = 0; x < 8; x++) {
+        let sum = 0;
+        for (let u = 0; u < 8; u++) {
+          const index = v * 8 + u;
+          const coefficient = coefficients[offset + index];
+          if (coefficient !== 0) {
+            sum += idct[x * 8 + u] * coefficient * table[index];
+          }
+        }
+        temp[v * 8 + x] = sum;
+      }
+    }
+
+    // Columns: out[y][x] = sum over v of T[y][v] * temp[v][x], level shifted by 128
+    for (let x = 0; x < 8; x++) {
+      for (let y = 0; y < 8; y++) {
+        let sum = 0;
+        for (let v = 0; v < 8; v++) {
+          sum += idct[y * 8 + v] * temp[v * 8 + x];
+        }
+        out[outOffset + y * stride + x] = sum + 128;
+      }
+    }
+  }
+}
+
+// Animation frame composited onto the full canvas
+interface AnimationFrame {
+  image: RgbImage;
+  delay: number; // Milliseconds
+}
+
+// IHDR fields plus the palette and transparency chunks
+interface PngInfo {
+  width: number;
+  height: number;
+  bitDepth: number;
+  colorType: number;
+  interlaced: boolean;
+  palette: Uint8Array | null;
+  transparency: Uint8Array | null;
+}
+
+// APNG frame control chunk (fcTL) with the image data that belongs to it
+interface ApngFrame {
+  width: number;
+  height: number;
+  x: number;
+  y: number;
+  delay: number; // Milliseconds
+  dispose: number;
+  blend: number;
+  chunks: Uint8Array[];
+}
+
+// Pure TypeScript PNG decoder (all colour types and bit depths, Adam7 interlacing, APNG)
+class PngDecoder {
+  private static readonly SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10];
+
+  // Adam7 passes as [startX, startY, stepX, stepY]
+  private static readonly ADAM7 = [
+    [0, 0, 8, 8],
+    [4, 0, 8, 8],
+    [0, 4, 4, 8],
+    [2, 0, 4, 4],
+    [0, 2, 2, 4],
+    [1, 0, 2, 2],
+    [0, 1, 1, 2],
+  ];
+
+  static async decode(data: Uint8Array): Promise<RgbImage> {
+    const { info, idatChunks } = this.parse(data);
+    const rgba = await this.decodePixels(info, idatChunks, info.width, info.height);
+    return PixelDecoder.fromRgba(rgba, info.width, info.height);
+  }
+
+  // Yields every APNG frame composited onto the canvas; plain PNGs yield a single frame
+  static async *decodeFrames(data: Uint8Array): AsyncGenerator<AnimationFrame> {
+    const { info, frames } = this.parse(data);
+    if (frames.length === 0) {
+      yield { image: await this.decode(data), delay: 0 };
+      return;
+    }
+
+    const { width, height } = info;
+    let canvas = new Uint8Array(width * height * 4);
+
+    for (let i = 0; i < frames.length; i++) {
+      const frame = frames[i];
+      if (frame.x + frame.width > width || frame.y + frame.height > height) {
+        throw new RenderError("PNG decoding failed: APNG frame outside the canvas");
+      }
+
+      const pixels = await this.decodePixels(info, frame.chunks, frame.width, frame.height);
+
+      // "Previous" disposal on the first frame means clearing to transparent black
+      const dispose = i === 0 && frame.dispose === 2 ? 1 : frame.dispose;
+      const previous = dispose === 2 ? canvas.slice() : null;
+
+      for (let y = 0; y < frame.height; y++) {
+        for (let x = 0; x < frame.width; x++) {
+          const s = (y * frame.width + x) * 4;
+          const d = ((frame.y + y) * width + frame.x + x) * 4;
+          const alpha = pixels[s + 3];
+
+          if (frame.blend === 0 || alpha === 255) {
+            canvas.set(pixels.subarray(s, s + 4), d);
+          } else if (alpha > 0) {
+            // APNG_BLEND_OP_OVER on non-premultiplied RGBA
+            const below = (canvas[d + 3] * (255 - alpha)) / 255;
+            const outAlpha = alpha + below;
+            for (let c = 0; c < 3; c++) {
+              canvas[d + c] = (pixels[s + c] * alpha + canvas[d + c] * below) / outAlpha;
+            }
+            canvas[d + 3] = outAlpha;
+          }
+        }
+      }
+
+      yield { image: PixelDecoder.fromRgba(canvas, width, height), delay: frame.delay };
+
+      if (dispose === 1) {
+        for (let y = frame.y; y < frame.y + frame.height; y++) {
+          const rowStart = (y * width + frame.x) * 4;
+          canvas.fill(0, rowStart, rowStart + frame.width * 4);
+        }
+      } else if (previous) {
+        canvas = previous;
+      }
+    }
+  }
+
+  private static parse(data: Uint8Array): { info: PngInfo; idatChunks: Uint8Array[]; frames: ApngFrame[] } {
+    if (!this.SIGNATURE.every((byte, i) => data[i] === byte)) {
+      throw new RenderError("PNG decoding failed: invalid signature");
+    }
+
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    const info: PngInfo = {
+      width: 0,
+      height: 0,
+      bitDepth: 8,
+      colorType: 0,
+      interlaced: false,
+      palette: null,
+      transparency: null,
+    };
+    const idatChunks: Uint8Array[] = [];
+    const frames: ApngFrame[] = [];
+    let animated = false;
+
+    let offset = 8;
+    while (offset + 8 <= data.length) {
+      const length = view.getUint32(offset);
+      const type = String.fromCharCode(...data.subarray(offset + 4, offset + 8));
+      const chunk = data.subarray(offset + 8, offset + 8 + length);
+      const chunkOffset = offset + 8;
+      offset += 12 + length; // Length, type, data and CRC
+
+      if (type === "IHDR") {
+        info.width = view.getUint32(chunkOffset);
+        info.height = view.getUint32(chunkOffset + 4);
+        info.bitDepth = chunk[8];
+        info.colorType = chunk[9];
+        info.interlaced = chunk[12] === 1;
+      } else if (type === "PLTE") {
+        info.palette = chunk;
+      } else if (type === "tRNS") {
+        info.transparency = chunk;
+      } else if (type === "acTL") {
+        animated = view.getUint32(chunkOffset) > 1;
+      } else if (type === "fcTL" && animated) {
+        const delayDenominator = view.getUint16(chunkOffset + 22) || 100;
+        frames.push({
+          width: view.getUint32(chunkOffset + 4),
+          height: view.getUint32(chunkOffset + 8),
+          x: view.getUint32(chunkOffset + 12),
+          y: view.getUint32(chunkOffset + 16),
+          delay: (view.getUint16(chunkOffset + 20) * 1000) / delayDenominator,
+          dispose: chunk[24],
+          blend: chunk[25],
+          chunks: [],
+        });
+      } else if (type === "IDAT") {
+        idatChunks.push(chunk);
+        // The default image is the first frame when its fcTL comes before IDAT
+        frames[frames.length - 1]?.chunks.push(chunk);
+      } else if (type === "fdAT") {
+        // Frame data chunks start with a sequence number
+        frames[frames.length - 1]?.chunks.push(chunk.subarray(4));
+      } else if (type === "IEND") {
+        break;
+      }
+    }
+
+    if (info.width === 0 || info.height === 0 || idatChunks.length === 0) {
+      throw new RenderError("PNG decoding failed: missing image header or data");
+    }
+
+    return { info, idatChunks, frames: frames.filter((frame) => frame.chunks.length > 0) };
+  }
+
+  // Decodes zlib compressed scanlines into non-premultiplied RGBA
+  private static async decodePixels(
+    info: PngInfo,
+    chunks: Uint8Array[],
+    width: number,
+    height: number,
+  ): Promise<Uint8Array> {
+    const { bitDepth, colorType, interlaced, palette, transparency } = info;
+    const raw = await this.inflate(chunks);
+    const channels = [1, 0, 3, 1, 2, 0, 4][colorType];
+    if (!channels) {
+      throw new RenderError(`PNG decoding failed: unsupported colour type ${colorType}`);
+    }
+
+    const bitsPerPixel = channels * bitDepth;
+    const rgba = new Uint8Array(width * height * 4);
+    const maxValue = (1 << bitDepth) - 1;
+
+    // Reads sample `index` of a scanline, scaled to 0-255 (16-bit samples keep the high byte)
+    const readSample = (line: Uint8Array, index: number): number => {
+      if (bitDepth === 8) return line[index];
+      if (bitDepth === 16) return line[index * 2];
+      const bitOffset = index * bitDepth;
+      const byte = line[bitOffset >> 3];
+      const value = (byte >> (8 - bitDepth - (bitOffset & 7))) & maxValue;
+      return colorType === 3 ? value : Math.round((value * 255) / maxValue);
+    };
+
+    // Raw sample value used for tRNS colour key comparisons
+    const readRawSample = (line: Uint8Array, index: number): number => {
+      if (bitDepth === 16) return (line[index * 2] << 8) | line[index * 2 + 1];
+      if (bitDepth === 8) return line[index];
+      const bitOffset = index * bitDepth;
+      return (line[bitOffset >> 3] >> (8 - bitDepth - (bitOffset & 7))) & maxValue;
+    };
+
+    const transparentKey = transparency && (colorType === 0 || colorType === 2)
+      ? Array.from({ length: colorType === 0 ? 1 : 3 }, (_, i) => (transparency![i * 2] << 8) | transparency![i * 2 + 1])
+      : null;
+
+    const writePixel = (line: Uint8Array, sx: number, x: number, y: number) => {
+      let r: number;
+      let g: number;
+      let b: number;
+      let alpha = 255;
+      const base = sx * channels;
+
+      switch (colorType) {
+        case 0:
+          r = g = b = readSample(line, base);
+          if (transparentKey && readRawSample(line, base) === transparentKey[0]) alpha = 0;
+          break;
+        case 2:
+          r = readSample(line, base);
+          g = readSample(line, base + 1);
+          b = readSample(line, base + 2);
+          if (
+            transparentKey &&
+            readRawSample(line, base) === transparentKey[0] &&
+            readRawSample(line, base + 1) === transparentKey[1] &&
+            readRawSample(line, base + 2) === transparentKey[2]
+          ) alpha = 0;
+          break;
+        case 3: {
+          const index = readSample(line, base);
+          r = palette?.[index * 3] ?? 0;
+          g = palette?.[index * 3 + 1] ?? 0;
+          b = palette?.[index * 3 + 2] ?? 0;
+          alpha = transparency?.[index] ?? 255;
+          break;
+        }
+        case 4:
+          r = g = b = readSample(line, base);
+          alpha = readSample(line, base + 1);
+          break;
+        default:
+          r = readSample(line, base);
+          g = readSample(line, base + 1);
+          b = readSample(line, base + 2);
+          alpha = readSample(line, base + 3);
+      }
+
+      const p = (y * width + x) * 4;
+      rgba[p] = r;
+      rgba[p + 1] = g;
+      rgba[p + 2] = b;
+      rgba[p + 3] = alpha;
+    };
+
+    const passes = interlaced ? this.ADAM7 : [[0, 0, 1, 1]];
+    let rawOffset = 0;
+
+    for (const [startX, startY, stepX, stepY] of passes) {
+      const passWidth = Math.ceil((width - startX) / stepX);
+      const passHeight = Math.ceil((height - startY) / stepY);
+      if (passWidth <= 0 || passHeight <= 0) continue;
+
+      const lineLength = Math.ceil((passWidth * bitsPerPixel) / 8);
+      const bytesPerPixel = Math.max(1, bitsPerPixel >> 3);
+      let previous = new Uint8Array(lineLength);
+
+      for (let py = 0; py < passHeight; py++) {
+        const filter = raw[rawOffset];
+        const line = raw.slice(rawOffset + 1, rawOffset + 1 + lineLength);
+        rawOffset += lineLength + 1;
+
+        this.unfilter(filter, line, previous, bytesPerPixel);
+
+        const y = startY + py * stepY;
+        for (let px = 0; px < passWidth; px++) {
+          writePixel(line, px, startX + px * stepX, y);
+        }
+        previous = line;
+      }
+    }
+
+    return rgba;
+  }
+
+  private static async inflate(chunks: Uint8Array[]): Promise<Uint8Array> {
+    const joined = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+    let offset = 0;
+    for (const chunk of chunks) {
+      joined.set(chunk, offset);
+      offset += chunk.length;
+    }
+
+    // IDAT data is a zlib stream, which DecompressionStream calls "deflate"
+    const stream = new Blob([joined]).stream().pipeThrough(new DecompressionStream("deflate"));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+  }
+
+  private static unfilter(
+    filter: number,
+    line: Uint8Array,
+    previous: Uint8Array,
+    bytesPerPixel: number,
+  ): void {
+    for (let i = 0; i < line.length; i++) {
+      const left = i >= bytesPerPixel ? line[i - bytesPerPixel] : 0;
+      const up = previous[i];
+      const upLeft = i >= bytesPerPixel ? previous[i - bytesPerPixel] : 0;
+
+      switch (filter) {
+        case 1: // Sub
+          line[i] += left;
+          break;
+        case 2: // Up
+          line[i] += up;
+          break;
+        case 3: // Average
+          line[i] += (left + up) >> 1;
+          break;
+        case 4: { // Paeth
+          const p = left + up - upLeft;
+          const pa = Math.abs(p - left);
+          const pb = Math.abs(p - up);
+          const pc = Math.abs(p - upLeft);
+          line[i] += pa <= pb && pa <= pc ? left : pb <= pc ? up : upLeft;
+          break;
+        }
+      }
+    }
+  }
+}
+
+// Pure TypeScript GIF decoder (GIF87a/GIF89a, interlaced and transparent frames)
+class GifDecoder {
+  static decode(data: Uint8Array): RgbImage {
+    const first = this.decodeFrames(data).next();
+    if (first.done) {
+      throw new RenderError("GIF decoding failed: no image data");
+    }
+    return first.value.image;
+  }
+
+  // Frames are produced lazily so callers can stop early
+  static *decodeFrames(data: Uint8Array): Generator<AnimationFrame> {
+    const signature = String.fromCharCode(...data.subarray(0, 6));
+    if (signature !== "GIF87a" && signature !== "GIF89a") {
+      throw new RenderError("GIF decoding failed: invalid signature");
+    }
+
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    const width = view.getUint16(6, true);
+    const height = view.getUint16(8, true);
+    const screenFlags = data[10];
+    let offset = 13;
+
+    let globalPalette: Uint8Array | null = null;
+    if (screenFlags & 0x80) {
+      const size = 3 << ((screenFlags & 7) + 1);
+      globalPalette = data.subarray(offset, offset + size);
+      offset += size;
+    }
+
+    // RGBA canvas: transparent pixels keep whatever earlier frames left behind
+    let canvas = new Uint8Array(width * height * 4);
+
+    // Graphic control extension values, which only apply to the next image
+    let transparentIndex = -1;
+    let disposal = 0;
+    let delay = 0;
+
+    while (offset < data.length) {
+      const introducer = data[offset++];
+
+      if (introducer === 0x3b) { // Trailer
+        break;
+      }
+
+      if (introducer === 0x21) { // Extension
+        const label = data[offset++];
+        if (label === 0xf9 && data[offset] >= 4) {
+          const packed = data[offset + 1];
+          disposal = (packed >> 2) & 7;
+          delay = view.getUint16(offset + 2, true) * 10;
+          transparentIndex = packed & 1 ? data[offset + 4] : -1;
+        }
+        offset = this.skipSubBlocks(data, offset);
+        continue;
+      }
+
+      if (introducer !== 0x2c) {
+        throw new RenderError(`GIF decoding failed: unexpected block 0x${introducer.toString(16)}`);
+      }
+
+      const left = view.getUint16(offset, true);
+      const top = view.getUint16(offset + 2, true);
+      const frameWidth = view.getUint16(offset + 4, true);
+      const frameHeight = view.getUint16(offset + 6, true);
+      const imageFlags = data[offset + 8];
+      offset += 9;
+
+      let palette = globalPalette;
+      if (imageFlags & 0x80) {
+        const size = 3 << ((imageFlags & 7) + 1);
+        palette = data.subarray(offset, offset + size);
+        offset += size;
+      }
+
+      const minCodeSize = data[offset++];
+      const start = offset;
+      offset = this.skipSubBlocks(data, offset);
+      const indices = this.lzwDecode(
+        this.joinSubBlocks(data, start),
+        minCodeSize,
+        frameWidth * frameHeight,
+      );
+
+      const previous = disposal === 3 ? canvas.slice() : null;
+      const rows = imageFlags & 0x40 ? this.interlacedRows(frameHeight) : null;
+
+      for (let row = 0; row < frameHeight; row++) {
+        const y = top + (rows ? rows[row] : row);
+        if (y >= height) continue;
+
+        for (let column = 0; column < frameWidth; column++) {
+          const x = left + column;
+          const index = indices[row * frameWidth + column];
+          if (x >= width || index === transparentIndex || !palette || index * 3 + 2 >= palette.length) {
+            continue;
+          }
+
+          const p = (y * width + x) * 4;
+          canvas[p] = palette[index * 3];
+          canvas[p + 1] = palette[index * 3 + 1];
+          canvas[p + 2] = palette[index * 3 + 2];
+          canvas[p + 3] = 255;
+        }
+      }
+
+      yield { image: PixelDecoder.fromRgba(canvas, width, height), delay };
+
+      // Disposal happens after the frame has been shown
+      if (disposal === 2) {
+        for (let y = top; y < Math.min(height, top + frameHeight); y++) {
+          const rowStart = (y * width + left) * 4;
+          canvas.fill(0, rowStart, rowStart + Math.min(frameWidth, width - left) * 4);
+        }
+      } else if (previous) {
+        canvas = previous;
+      }
+
+      transparentIndex = -1;
+      disposal = 0;
+      delay = 0;
+    }
+  }
+
+  private static lzwDecode(data: Uint8Array, minCodeSize: number, pixelCount: number): Uint8Array {
+    const output = new Uint8Array(pixelCount);
+    const clearCode = 1 << minCodeSize;
+    const endCode = clearCode + 1;
+
+    // Dictionary entries are (prefix code, last byte) pairs, expanded backwards through a stack
+    const prefix = new Uint16Array(4096);
+    const suffix = new Uint8Array(4096);
+    const stack = new Uint8Array(4097);
+    for (let i = 0; i < clearCode; i++) {
+      suffix[i] = i;
+    }
+
+    let codeSize = minCodeSize + 1;
+    let nextCode = endCode + 1;
+    let oldCode = -1;
+    let first = 0;
+
+    let bitBuffer = 0;
+    let bitCount = 0;
+    let position = 0;
+    let outputPosition = 0;
+
+    while (outputPosition < pixelCount) {
+      // Codes are packed least significant bit first
+      while (bitCount < codeSize && position < data.length) {
+        bitBuffer |= data[position++] << bitCount;
+        bitCount += 8;
+      }
+      if (bitCount < codeSize) break;
+
+      let code = bitBuffer & ((1 << codeSize) - 1);
+      bitBuffer >>= codeSize;
+      bitCount -= codeSize;
+
+      if (code === clearCode) {
+        codeSize = minCodeSize + 1;
+        nextCode = endCode + 1;
+        oldCode = -1;
+        continue;
+      }
+      if (code === endCode) break;
+
+      if (oldCode === -1) {
+        if (code >= clearCode) break;
+        output[outputPosition++] = code;
+        oldCode = first = code;
+        continue;
+      }
+      if (code > nextCode) break;
+
+      const inCode = code;
+      let top = 0;
+      if (code === nextCode) {
+        // KwKwK case: the code being defined is the previous string plus its own first byte
+        stack[top++] = first;
+        code = oldCode;
+      }
+      while (code >= clearCode) {
+        stack[top++] = suffix[code];
+        code = prefix[code];
+      }
+      first = suffix[code];
+      stack[top++] = first;
+
+      while (top > 0 && outputPosition < pixelCount) {
+        output[outputPosition++] = stack[--top];
+      }
+
+      if (nextCode < 4096) {
+        prefix[nextCode] = oldCode;
+        suffix[nextCode] = first;
+        nextCode++;
+        if (nextCode === 1 << codeSize && codeSize < 12) {
+          codeSize++;
+        }
+      }
+      oldCode = inCode;
+    }
+
+    return output;
+  }
+
+  // Maps stored row order to image rows for the four interlace passes
+  private static interlacedRows(height: number): Int32Array {
+    const rows = new Int32Array(height);
+    let row = 0;
+    for (const [start, step] of [[0, 8], [4, 8], [2, 4], [1, 2]]) {
+      for (let y = start; y < height; y += step) {
+        rows[row++] = y;
+      }
+    }
+    return rows;
+  }
+
+  private static skipSubBlocks(data: Uint8Array, offset: number): number {
+    while (offset < data.length) {
+      const size = data[offset++];
+      if (size === 0) break;
+      offset += size;
+    }
+    return offset;
+  }
+
+  private static joinSubBlocks(data: Uint8Array, offset: number): Uint8Array {
+    const end = this.skipSubBlocks(data, offset);
+    const joined = new Uint8Array(end - offset);
+    let length = 0;
+    while (offset < end) {
+      const size = data[offset++];
+      if (size === 0) break;
+      joined.set(data.subarray(offset, offset + size), length);
+      length += size;
+      offset += size;
+    }
+    return joined.subarray(0, length);
+  }
+}
+
+// Pure TypeScript BMP decoder (uncompressed and bitfield pixel data, 1 to 32 bits per pixel)
+class BmpDecoder {
+  static decode(data: Uint8Array): RgbImage {
+    if (data[0] !== 0x42 || data[1] !== 0x4d) {
+      throw new RenderError("BMP decoding failed: invalid signature");
+    }
+
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    const pixelOffset = view.getUint32(10, true);
+    const headerSize = view.getUint32(14, true);
+
+    let width: number;
+    let height: number;
+    let bitCount: number;
+    let compression = 0;
+    let colorsUsed = 0;
+
+    if (headerSize === 12) {
+      // OS/2 BITMAPCOREHEADER
+      width = view.getUint16(18, true);
+      height = view.getInt16(20, true);
+      bitCount = view.getUint16(24, true);
+    } else {
+      width = view.getInt32(18, true);
+      height = view.getInt32(22, true);
+      bitCount = view.getUint16(28, true);
+      compression = view.getUint32(30, true);
+      colorsUsed = view.getUint32(46, true);
+    }
+
+    // Negative height means rows are stored top-down
+    const topDown = height < 0;
+    height = Math.abs(height);
+
+    // BI_RGB, BI_BITFIELDS and BI_ALPHABITFIELDS; RLE needs an external converter
+    if (compression !== 0 && compression !== 3 && compression !== 6) {
+      throw new RenderError(`BMP decoding failed: unsupported compression ${compression}`);
+    }
+    if (![1, 4, 8, 16, 24, 32].includes(bitCount)) {
+      throw new RenderError(`BMP decoding failed: unsupported bit depth ${bitCount}`);
+    }
+
+    // Channel masks follow a 40 byte header, or are part of the V4/V5 headers
+    let masks = bitCount === 16 ? [0x7c00, 0x03e0, 0x001f] : [0xff0000, 0x00ff00, 0x0000ff];
+    if (compression === 3 || compression === 6) {
+      masks = [view.getUint32(54, true), view.getUint32(58, true), view.getUint32(62, true)];
+    }
+    const channels = masks.map((mask) => {
+      const shift = mask ? 31 - Math.clz32(mask & -mask) : 0;
+      return { mask, shift, max: mask >>> shift };
+    });
+
+    const paletteOffset = 14 + headerSize;
+    const paletteEntrySize = headerSize === 12 ? 3 : 4;
+    const paletteSize = bitCount <= 8 ? colorsUsed || 1 << bitCount : 0;
+
+    const stride = Math.floor((bitCount * width + 31) / 32) * 4;
+    if (pixelOffset + stride * height > data.length) {
+      throw new RenderError("BMP decoding failed: truncated pixel data");
+    }
+
+    const rgb = new Uint8Array(width * height * 3);
+    for (let y = 0; y < height; y++) {
+      const rowStart = pixelOffset + (topDown ? y : height - 1 - y) * stride;
+
+      for (let x = 0; x < width; x++) {
+        const q = (y * width + x) * 3;
+
+        if (bitCount <= 8) {
+          const bitOffset = x * bitCount;
+          const byte = data[rowStart + (bitOffset >> 3)];
+          const index = (byte >> (8 - bitCount - (bitOffset & 7))) & ((1 << bitCount) - 1);
+          if (index < paletteSize) {
+            const p = paletteOffset + index * paletteEntrySize;
+            rgb[q] = data[p + 2];
+            rgb[q + 1] = data[p + 1];
+            rgb[q + 2] = data[p];
+          }
+        } else if (bitCount === 24) {
+          const p = rowStart + x * 3;
+          rgb[q] = data[p + 2];
+          rgb[q + 1] = data[p + 1];
+          rgb[q + 2] = data[p];
+        } else {
+          const value = bitCount === 16
+            ? view.getUint16(rowStart + x * 2, true)
+            : view.getUint32(rowStart + x * 4, true);
+          for (let c = 0; c < 3; c++) {
+            const { mask, shift, max } = channels[c];
+            rgb[q + c] = mask ? Math.round((((value & mask) >>> shift) * 255) / max) : 0;
+          }
+        }
+      }
+    }
+
+    return { width, height, data: rgb };
+  }
+}
+
+// Minimal PNG encoder for handing natively decoded pixels to file based renderers
+class PngEncoder {
+  private static crcTable: Uint32Array | null = null;
+
+  static async encode(image: RgbImage): Promise<Uint8Array> {
+    // Truecolour, 8 bits per sample, filter type 0 (None) on every scanline
+    const stride = image.width * 3;
+    const raw = new Uint8Array((stride + 1) * image.height);
+    for (let y = 0; y < image.height; y++) {
+      raw.set(image.data.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1);
+    }
+
+    const header = new Uint8Array(13);
+    const view = new DataView(header.buffer);
+    view.setUint32(0, image.width);
+    view.setUint32(4, image.height);
+    header[8] = 8;
+    header[9] = 2;
+
+    // CompressionStream "deflate" produces the zlib stream IDAT expects
+    const stream = new Blob([raw]).stream().pipeThrough(new CompressionStream("deflate"));
+    const compressed = new Uint8Array(await new Response(stream).arrayBuffer());
+
+    const chunks = [
+      new Uint8Array([137, 80, 78, 71, 13, 10, 26, 10]),
+      this.chunk("IHDR", header),
+      this.chunk("IDAT", compressed),
+      this.chunk("IEND", new Uint8Array(0)),
+    ];
+
+    const output = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+    let offset = 0;
+    for (const chunk of chunks) {
+      output.set(chunk, offset);
+      offset += chunk.length;
+    }
+    return output;
+  }
+
+  private static chunk(type: string, data: Uint8Array): Uint8Array {
+    const chunk = new Uint8Array(data.length + 12);
+    const view = new DataView(chunk.buffer);
+    view.setUint32(0, data.length);
+    for (let i = 0; i < 4; i++) {
+      chunk[4 + i] = type.charCodeAt(i);
+    }
+    chunk.set(data, 8);
+    view.setUint32(8 + data.length, this.crc32(chunk.subarray(4, 8 + data.length)));
+    return chunk;
+  }
+
+  private static crc32(data: Uint8Array): number {
+    if (!this.crcTable) {
+      this.crcTable = new Uint32Array(256);
+      for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+          c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        }
+        this.crcTable[n] = c;
+      }
+    }
+
+    let crc = 0xffffffff;
+    for (let i = 0; i < data.length; i++) {
+      crc = this.crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+  }
+}
+
+// Decodes image buffers to raw pixels for the built-in and native protocol renderers
+class PixelDecoder {
+  // Formats with a built-in decoder; the rest are converted by FormatConverter first
+  static readonly NATIVE_FORMATS: ImageFormat[] = ["jpeg", "png", "gif", "bmp"];
+
+  static async decode(buffer: Uint8Array): Promise<RgbImage> {
+    const format = ImageHeader.sniffFormat(buffer);
+    if (format === "jpeg") return this.orient(JpegDecoder.decode(buffer), ExifReader.parse(buffer)?.orientation ?? 1);
+    if (format === "png") return await PngDecoder.decode(buffer);
+    if (format === "gif") return GifDecoder.decode(buffer);
+    if (format === "bmp") return BmpDecoder.decode(buffer);
+    throw new RenderError(`Pixel decoding failed: no built-in decoder for ${format ?? "unknown"} images`);
+  }
+
+  // Turns the stored pixels upright according to an EXIF orientation (1-8)
+  static orient(image: RgbImage, orientation: number): RgbImage {
+    if (orientation === 1) return image;
+
+    const { width, height } = image;
+    const transposed = ExifReader.isTransposed(orientation);
+    const outWidth = transposed ? height : width;
+    const outHeight = transposed ? width : height;
+
+    // Where each output pixel comes from in the stored image
+    const source = (x: number, y: number): [number, number] => {
+      switch (orientation) {
+        case 2: return [width - 1 - x, y];
+        case 3: return [width - 1 - x, height - 1 - y];
+        case 4: return [x, height - 1 - y];
+        case 5: return [y, x];
+        case 6: return [y, height - 1 - x];
+        case 7: return [width - 1 - y, height - 1 - x];
+        case 8: return [width - 1 - y, x];
+        default: return [x, y];
+      }
+    };
+
+    const data = new Uint8Array(outWidth * outHeight * 3);
+    for (let y = 0; y < outHeight; y++) {
+      for (let x = 0; x < outWidth; x++) {
+        const [sx, sy] = source(x, y);
+        const from = (sy * width + sx) * 3;
+        const to = (y * outWidth + x) * 3;
+        data[to] = image.data[from];
+        data[to + 1] = image.data[from + 1];
+        data[to + 2] = image.data[from + 2];
+      }
+    }
+    return { width: outWidth, height: outHeight, data };
+  }
+
+  static resizeToFit(image: RgbImage, maxWidth: number, maxHeight: number): RgbImage {
+    const size = this.fitWithin(image.width, image.height, maxWidth, maxHeight);
+    return this.resize(image, size.width, size.height);
+  }
+
+  // Composites non-premultiplied RGBA over a black background
+  static fromRgba(rgba: Uint8Array, width: number, height: number): RgbImage {
+    const data = new Uint8Array(width * height * 3);
+    for (let i = 0, p = 0; i < data.length; i += 3, p += 4) {
+      const alpha = rgba[p + 3];
+      data[i] = (rgba[p] * alpha) / 255;
+      data[i + 1] = (rgba[p + 1] * alpha) / 255;
+      data[i + 2] = (rgba[p + 2] * alpha) / 255;
+    }
+    return { width, height, data };
+  }
+
+  static fitWithin(
+    width: number,
+    height: number,
+    maxWidth: number,
+    maxHeight: number,
+  ): { width: number; height: number } {
+    const scale = Math.min(maxWidth / width, maxHeight / height);
+    return {
+      width: Math.max(1, Math.round(width * scale)),
+      height: Math.max(1, Math.round(height * scale)),
+    };
+  }
+
+  static resize(image: RgbImage, width: number, height: number): RgbImage {
+    if (image.width === width && image.height === height) {
+      return image;
+    }
+
+    // Box filter: average every source pixel covered by the output pixel (nearest when enlarging)
+    const data = new Uint8Array(width * height * 3);
+    const columnStarts = new Int32Array(width + 1);
+    for (let x = 0; x <= width; x++) {
+      columnStarts[x] = Math.floor((x * image.width) / width);
+    }
+
+    for (let y = 0; y < height; y++) {
+      const y0 = Math.floor((y * image.height) / height);
+      const y1 = Math.max(y0 + 1, Math.floor(((y + 1) * image.height) / height));
+
+      for (let x = 0; x < width; x++) {
+        const x0 = columnStarts[x];
+        const x1 = Math.max(x0 + 1, columnStarts[x + 1]);
+        let r = 0;
+        let g = 0;
+        let b = 0;
+
+        for (let sy = y0; sy < y1; sy++) {
+          let p = (sy * image.width + x0) * 3;
+          for (let sx = x0; sx < x1; sx++, p += 3) {
+            r += image.data[p];
+            g += image.data[p + 1];
+            b += image.data[p + 2];
+          }
+        }
+
+        const count = (y1 - y0) * (x1 - x0);
+        const q = (y * width + x) * 3;
+        data[q] = r / count;
+        data[q + 1] = g / count;
+        data[q + 2] = b / count;
+      }
+    }
+
+    return { width, height, data };
+  }
+
+  static toGrayscale(image: RgbImage): RgbImage {
+    const data = new Uint8Array(image.data.length);
+    for (let i = 0; i < data.length; i += 3) {
+      const luma = Math.round(
+        0.299 * image.data[i] + 0.587 * image.data[i + 1] + 0.114 * image.data[i + 2],
+      );
+      data[i] = data[i + 1] = data[i + 2] = luma;
+    }
+    return { width: image.width, height: image.height, data };
+  }
+}
+
+// Tool used to turn a source format into something the renderers can read
+type FormatConverterKind = "builtin" | "imagemagick" | "ffmpeg";
+
+interface FormatCapability {
+  format: ImageFormat;
+  label: string;
+  converter: FormatConverterKind | null;
+}
+
+// Normalizes source images to a format the active renderer accepts before it sees them
+class FormatConverter {
+  private static readonly LABELS: Record<ImageFormat, string> = {
+    jpeg: "JPEG",
+    png: "PNG",
+    gif: "GIF",
+    bmp: "BMP",
+    webp: "WebP",
+    heic: "HEIC",
+  };
+
+  // Names used by `magick -list format` and `ffmpeg -decoders`
+  private static readonly EXTERNAL_NAMES: Record<ImageFormat, { imageMagick: string; ffmpeg: string }> = {
+    jpeg: { imageMagick: "JPEG", ffmpeg: "mjpeg" },
+    png: { imageMagick: "PNG", ffmpeg: "png" },
+    gif: { imageMagick: "GIF", ffmpeg: "gif" },
+    bmp: { imageMagick: "BMP", ffmpeg: "bmp" },
+    webp: { imageMagick: "WEBP", ffmpeg: "webp" },
+    heic: { imageMagick: "HEIC", ffmpeg: "hevc" },
+  };
+
+  private static imageMagickCommand: string | null | undefined;
+  private static imageMagickFormats: Set<string> | undefined;
+  private static ffmpegDecoders: Set<string> | undefined;
+  private static ffmpegReadsHeif: boolean | undefined;
+
+  static async normalize(buffer: Uint8Array, accepted: ImageFormat[]): Promise<Uint8Array> {
+    const format = ImageHeader.sniffFormat(buffer);
+
+    // Renderers reading files ignore EXIF orientation, so sideways JPEGs are handed over upright as PNG
+    if (format === "jpeg" && (ExifReader.parse(buffer)?.orientation ?? 1) !== 1) {
+      Logger.debug("Rotating JPEG to its EXIF orientation");
+      const upright = await this.rotateJpeg(buffer);
+      if (upright) return upright;
+    }
+
+    // Unrecognised data goes through untouched so the renderer reports its own error
+    if (!format || accepted.includes(format)) {
+      return buffer;
+    }
+
+    // Every renderer reads PNG, so that is the common target
+    Logger.debug(`Converting ${this.LABELS[format]} image to PNG`);
+    return await this.toPng(buffer, format);
+  }
+
+  static async toPng(buffer: Uint8Array, format: ImageFormat): Promise<Uint8Array> {
+    const converter = await this.findConverter(format);
+
+    switch (converter) {
+      case "builtin":
+        return await PngEncoder.encode(await PixelDecoder.decode(buffer));
+      case "imagemagick":
+        return await this.runImageMagick(buffer, format);
+      case "ffmpeg":
+        return await this.runExternal("ffmpeg", buffer, format, (input) => [
+          "-v",
+          "error",
+          "-i",
+          input,
+          "-frames:v",
+          "1",
+          "-f",
+          "image2pipe",
+          "-c:v",
+          "png",
+          "pipe:1",
+        ]);
+      default:
+        throw new RenderError(
+          `No converter available for ${this.LABELS[format]} images: install ${this.converterHint(format)}`,
+        );
+    }
+  }
+
+  static async findConverter(format: ImageFormat): Promise<FormatConverterKind | null> {
+    if (PixelDecoder.NATIVE_FORMATS.includes(format)) {
+      return "builtin";
+    }
+
+    // ImageMagick first: it handles HEIC tile grids and EXIF orientation
+    if ((await this.listImageMagickFormats()).has(this.EXTERNAL_NAMES[format].imageMagick)) {
+      return "imagemagick";
+    }
+    if (
+      (await this.listFfmpegDecoders()).has(this.EXTERNAL_NAMES[format].ffmpeg) &&
+      (format !== "heic" || await this.checkFfmpegHeif())
+    ) {
+      return "ffmpeg";
+    }
+    return null;
+  }
+
+  // What to install when nothing converts `format`
+  static converterHint(format: ImageFormat): string {
+    return format === "heic" ? "ImageMagick with libheif, or ffmpeg 7.1 or later" : "ImageMagick or ffmpeg";
+  }
+
+  static async getCapabilities(): Promise<FormatCapability[]> {
+    const capabilities: FormatCapability[] = [];
+    for (const format of Object.keys(this.LABELS) as ImageFormat[]) {
+      capabilities.push({
+        format,
+        label: this.LABELS[format],
+        converter: await this.findConverter(format),
+      });
+    }
+    return capabilities;
+  }
+
+  static async findImageMagick(): Promise<string | null> {
+    if (this.imageMagickCommand !== undefined) {
+      return this.imageMagickCommand;
+    }
+
+    // ImageMagick 7 ships "magick", ImageMagick 6 only "convert"
+    this.imageMagickCommand = null;
+    for (const command of ["magick", "convert"]) {
+      if (await DependencyChecker.commandExists(command)) {
+        this.imageMagickCommand = command;
+        break;
+      }
+    }
+    return this.imageMagickCommand;
+  }
+
+  private static async listImageMagickFormats(): Promise<Set<string>> {
+    if (this.imageMagickFormats) {
+      return this.imageMagickFormats;
+    }
+
+    this.imageMagickFormats = new Set();
+    const command = await this.findImageMagick();
+    if (command) {
+      // Lines look like "     HEIC  HEIC      rw+   High Efficiency Image Format"
+      for (const line of await this.readCommandLines(command, ["-list", "format"])) {
+        const match = line.match(/^\s*([A-Z0-9-]+)\*?\s+\S+\s+r/);
+        if (match) this.imageMagickFormats.add(match[1]);
+      }
+    }
+    return this.imageMagickFormats;
+  }
+
+  private static async listFfmpegDecoders(): Promise<Set<string>> {
+    if (this.ffmpegDecoders) {
+      return this.ffmpegDecoders;
+    }
+
+    this.ffmpegDecoders = new Set();
+    if (await DependencyChecker.commandExists("ffmpeg")) {
+      // Video decoder lines look like " V....D webp                 WebP image"
+      for (const line of await this.readCommandLines("ffmpeg", ["-hide_banner", "-decoders"])) {
+        const match = line.match(/^\s*V\S{5}\s+(\S+)/);
+        if (match) this.ffmpegDecoders.add(match[1]);
+      }
+    }
+    return this.ffmpegDecoders;
+  }
+
+  // Decoding HEVC is not enough: ffmpeg only reads the HEIF container from 7.1 on. Snapshot builds
+  // ("ffmpeg version N-...") do not say which release they follow, so they are not trusted with HEIC
+  private static async checkFfmpegHeif(): Promise<boolean> {
+    if (this.ffmpegReadsHeif === undefined) {
+      const [firstLine] = await this.readCommandLines("ffmpeg", ["-hide_banner", "-version"]);
+      const version = firstLine?.match(/^ffmpeg version n?(\d+)\.(\d+)/);
+      const [major, minor] = version ? [parseInt(version[1]), parseInt(version[2])] : [0, 0];
+      this.ffmpegReadsHeif = major > 7 || (major === 7 && minor >= 1);
+    }
+    return this.ffmpegReadsHeif;
+  }
+
+  private static async readCommandLines(command: string, args: string[]): Promise<string[]> {
+    try {
+      const output = await new Deno.Command(command, {
+        args,
+        stdout: "piped",
+        stderr: "null",
+      }).output();
+      return new TextDecoder().decode(output.stdout).split("\n");
+    } catch {
+      return [];
+    }
+  }
+
+  // The built-in decoder reads most JPEGs; the ones it cannot are rotated by ImageMagick,
+  // or else returned as null and shown the way they are stored
+  private static async rotateJpeg(buffer: Uint8Array): Promise<Uint8Array | null> {
+    try {
+      return await PngEncoder.encode(await PixelDecoder.decode(buffer));
+    } catch (error) {
+      Logger.debug(`Built-in decoder cannot rotate this JPEG: ${(error as Error).message}`);
+    }
+
+    if (await this.findImageMagick()) {
+      try {
+        return await this.runImageMagick(buffer, "jpeg");
+      } catch (error) {
+        Logger.warn(`Cannot rotate JPEG, showing it unrotated: ${(error as Error).message}`);
+      }
+    }
+    return null;
+  }
+
+  private static async runImageMagick(buffer: Uint8Array, format: ImageFormat): Promise<Uint8Array> {
+    return await this.runExternal(await this.findImageMagick() as string, buffer, format, (input) => [
+      `${input}[0]`, // First frame only for animated formats
+      "-auto-orient",
+      "png:-",
+    ]);
+  }
+
+  private static async runExternal(
+    command: string,
+    buffer: Uint8Array,
+    format: ImageFormat,
+    buildArgs: (input: string) => string[],
+  ): Promise<Uint8Array> {
+    // Converters get a real file: HEIF and some WebP files cannot be read from a pipe
+    const tmpFile = await Deno.makeTempFile({
+      suffix: `.${format}`,
+      prefix: "slide-",
+    });
+
+    try {
+      await Deno.writeFile(tmpFile, buffer);
+
+      const args = buildArgs(tmpFile);
+      Logger.debug(`Converter command: ${command} ${args.join(" ")}`);
+
+      const output = await new Deno.Command(command, {
+        args,
+        stdout: "piped",
+        stderr: "piped",
+      }).output();
+
+      if (output.code !== 0 || output.stdout.length === 0) {
+        const errorText = new TextDecoder().decode(output.stderr);
+        throw new RenderError(`${command} failed with exit code ${output.code}: ${errorText}`);
+      }
+
+      return output.stdout;
+    } finally {
+      try {
+        await Deno.remove(tmpFile);
+      } catch {
+        // Ignore cleanup errors
+      }
+    }
+  }
+}
+
+// Base renderer interface
+interface Renderer {
+  render(buffer: Uint8Array, area: RenderArea, config: Config): Promise<string>;
+  renderFrame(image: RgbImage, area: RenderArea, config: Config): Promise<string>;
+  supportsMode(mode: RenderMode): boolean;
+  getSupportedFormats(): ImageFormat[];
+  playsAnimations(): boolean;
+  checkDependencies(): Promise<boolean>;
+  getInstallHint(): string[];
+  getName(): string;
+}
+
+// jp2a ASCII art renderer
+class Jp2aRenderer implements Renderer {
+  // Bits per colour for jp2a's --color-depth
+  private static readonly COLOR_DEPTHS: Record<ColorDepth, number> = { "16": 4, "256": 8, truecolor: 24 };
+
+  getName(): string {
+    return "jp2a";
+  }
+
+  supportsMode(mode: RenderMode): boolean {
+    return mode === "ascii";
+  }
+
+  getSupportedFormats(): ImageFormat[] {
+    return ["jpeg", "png"];
+  }
+
+  playsAnimations(): boolean {
+    return false;
+  }
+
+  checkDependencies(): Promise<boolean> {
+    return DependencyChecker.checkJp2a();
+  }
+
+  getInstallHint(): string[] {
+    return [
+      "To install jp2a:",
+      "  macOS: brew install jp2a",
+      "  Ubuntu/Debian: sudo apt-get install jp2a",
+      "  Arch: sudo pacman -S jp2a",
+    ];
+  }
+
+  async render(buffer: Uint8Array, area: RenderArea, config: Config): Promise<string> {
+    const tmpFile = await Deno.makeTempFile({
+      suffix: ImageHeader.sniffFormat(buffer) === "png" ? ".png" : ".jpg",
+      prefix: "slide-",
+    });
+
+    try {
+      await Deno.writeFile(tmpFile, buffer);
+
+      // Output is always captured and centered here: jp2a's -c centers on the terminal, not a pipe
+      const args = ["-b"]; // -b draws a border around the picture
+
+      if (config.invert) {
+        args.push("--invert");
+      }
+
+      if (config.colors) {
+        args.push("--colors");
+
+        // jp2a 1.1.0 added 256 colour and truecolor output; older versions only know the 16 basic colours
+        const version = await DependencyChecker.getJp2aVersion();
+        if (version && DependencyChecker.compareVersions(version, "1.1.0") >= 0) {
+          args.push(`--color-depth=${Jp2aRenderer.COLOR_DEPTHS[config.colorDepth]}`);
+        }
+      }
+
+      // Size from the real image dimensions when the header can be read
+      const dimensions = ImageHeader.parse(buffer);
+
+      if (dimensions) {
+        // Both flags: the fit already accounts for the character cell aspect ratio
+        const fit = TerminalUtils.fitToCells(dimensions, area);
+        args.push("--width=" + fit.columns, "--height=" + fit.rows);
+      } else {
+        // Unknown header: calculate aspect ratios to determine the best fit strategy
+        const terminalAspectRatio = area.columns / area.rows;
+
+        // Use a threshold to determine if we should constrain by width or height
+        // For most terminals, width is typically 2-3x the height in character terms
+        // If terminal is very wide (landscape-like), constrain by height to avoid tiny images
+        // If terminal is tall/square, constrain by width to fit properly
+        if (terminalAspectRatio > 2.5) {
+          // Wide terminal: constrain by height, let width adjust proportionally
+          args.push("--height=" + area.rows);
+        } else {
+          // Tall/square terminal: constrain by width, let height adjust proportionally
+          args.push("--width=" + area.columns);
+        }
+      }
+
+      if (config.fill) {
+        // jp2a --fill flag: fills background of ASCII art with ANSI color
+        args.push("--fill");
+      }
+
+      args.push(tmpFile);
+
+      Logger.debug(`jp2a command: jp2a ${args.join(" ")}`);
+
+      const jp2a = new Deno.Command("jp2a", {
+        args: args,
+        stdout: "piped",
+        stderr: "piped",
+      });
+
+      const output = await jp2a.output();
+
+      if (output.code !== 0) {
+        const errorText = new TextDecoder().decode(output.stderr);
+        throw new RenderError(`jp2a failed with exit code ${output.code}: ${errorText}`);
+      }
+
+      return ImageProcessor.centerAscii(new TextDecoder().decode(output.stdout)) + "\n";
+    } finally {
+      try {
+        await Deno.remove(tmpFile);
+      } catch {
+        // Ignore cleanup errors
+      }
+    }
+  }
+
+  async renderFrame(image: RgbImage, area: RenderArea, config: Config): Promise<string> {
+    return this.render(await PngEncoder.encode(image), area, config);
+  }
+}
+
+// chafa symbol renderer (block, braille and sextant characters)
+class ChafaRenderer implements Renderer {
+  private static readonly SYMBOLS: Record<RenderMode, string> = {
+    ascii: "ascii",
+    blocks: "vhalf",
+    braille: "braille",
+  };
+
+  private static readonly COLOR_MODES: Record<ColorDepth, string> = { "16": "16", "256": "256", truecolor: "full" };
+
+  getName(): string {
+    return "chafa";
+  }
+
+  supportsMode(_mode: RenderMode): boolean {
+    return true;
+  }
+
+  getSupportedFormats(): ImageFormat[] {
+    // chafa's own loaders; anything else would need its optional ImageMagick support
+    return ["jpeg", "png", "gif", "webp"];
+  }
+
+  playsAnimations(): boolean {
+    return false;
+  }
+
+  checkDependencies(): Promise<boolean> {
+    return DependencyChecker.commandExists("chafa");
+  }
+
+  getInstallHint(): string[] {
+    return [
+      "To install chafa:",
+      "  macOS: brew install chafa",
+      "  Ubuntu/Debian: sudo apt-get install chafa",
+      "  Arch: sudo pacman -S chafa",
+    ];
+  }
+
+  async render(buffer: Uint8Array, area: RenderArea, config: Config): Promise<string> {
+    return ImageProcessor.centerAscii(await this.run(buffer, area, config)) + "\n";
+  }
+
+  async renderFrame(image: RgbImage, area: RenderArea, config: Config): Promise<string> {
+    return this.render(await PngEncoder.encode(image), area, config);
+  }
+
+  private async run(buffer: Uint8Array, area: RenderArea, config: Config): Promise<string> {
+    const tmpFile = await Deno.makeTempFile({ prefix: "slide-" });
+
+    try {
+      await Deno.writeFile(tmpFile, buffer);
+
+      // Force symbol output: graphics protocols have their own renderers
+      const args = [
+        "--format=symbols",
+        `--symbols=${ChafaRenderer.SYMBOLS[config.mode]}`,
+        `--size=${area.columns}x${area.rows}`,
+        `--colors=${config.colors ? ChafaRenderer.COLOR_MODES[config.colorDepth] : "none"}`,
+      ];
+
+      if (!config.fill) {
+        // Without --fill only foreground colours are drawn, like jp2a
+        args.push("--fg-only");
+      }
+
+      if (config.invert) {
+        args.push("--invert");
+      }
+
+      args.push(tmpFile);
+
+      Logger.debug(`chafa command: chafa ${args.join(" ")}`);
+
+      const chafa = new Deno.Command("chafa", {
+        args: args,
+        stdout: "piped",
+        stderr: "piped",
+      });
+
+      const output = await chafa.output();
+
+      if (output.code !== 0) {
+        const errorText = new TextDecoder().decode(output.stderr);
+        throw new RenderError(`chafa failed with exit code ${output.code}: ${errorText}`);
+      }
+
+      return new TextDecoder().decode(output.stdout);
+    } finally {
+      try {
+        await Deno.remove(tmpFile);
+      } catch {
+        // Ignore cleanup errors
+      }
+    }
+  }
+}
+
+// Sixel graphics renderer (xterm -ti vt340, foot, mlterm, WezTerm, Windows Terminal)
+class SixelRenderer implements Renderer {
+  getName(): string {
+    return "sixel";
+  }
+
+  supportsMode(_mode: RenderMode): boolean {
+    // Real images: the text mode does not apply
+    return true;
+  }
+
+  getSupportedFormats(): ImageFormat[] {
+    return PixelDecoder.NATIVE_FORMATS;
+  }
+
+  playsAnimations(): boolean {
+    return false;
+  }
+
+  checkDependencies(): Promise<boolean> {
+    // Pixels are decoded natively; other formats are converted before rendering
+    return Promise.resolve(true);
+  }
+
+  getInstallHint(): string[] {
+    return [];
+  }
+
+  async render(buffer: Uint8Array, area: RenderArea, config: Config): Promise<string> {
+    return this.renderFrame(await PixelDecoder.decode(buffer), area, config);
+  }
+
+  renderFrame(source: RgbImage, area: RenderArea, config: Config): Promise<string> {
+    const cell = TerminalUtils.getCellPixelSize();
+    let image = PixelDecoder.resizeToFit(source, area.columns * cell.width, area.rows * cell.height);
+
+    if (!config.colors) {
+      image = PixelDecoder.toGrayscale(image);
+    }
+
+    const imageColumns = Math.ceil(image.width / cell.width);
+    return Promise.resolve(
+      TerminalUtils.horizontalPadding(imageColumns) + SixelRenderer.encode(image) + "\n",
+    );
+  }
+
+  static encode(image: RgbImage): string {
+    const { width, height, data } = image;
+
+    // Map every pixel onto a fixed 6x6x6 colour cube so the palette fits in 216 registers
+    const indices = new Uint8Array(width * height);
+    for (let i = 0, p = 0; i < indices.length; i++, p += 3) {
+      const r = Math.round(data[p] / 51);
+      const g = Math.round(data[p + 1] / 51);
+      const b = Math.round(data[p + 2] / 51);
+      indices[i] = r * 36 + g * 6 + b;
+    }
+
+    const parts: string[] = [`\x1bP0;1;0q"1;1;${width};${height}`];
+
+    const used = new Set(indices);
+    for (const index of used) {
+      const r = Math.floor(index / 36) * 20;
+      const g = Math.floor((index % 36) / 6) * 20;
+      const b = (index % 6) * 20;
+      parts.push(`#${index};2;${r};${g};${b}`);
+    }
+
+    // Each sixel band covers six pixel rows; colours are overprinted with "$"
+    for (let y = 0; y < height; y += 6) {
+      const bands = new Map<number, Uint8Array>();
+      for (let dy = 0; dy < 6 && y + dy < height; dy++) {
+        const row = (y + dy) * width;
+        for (let x = 0; x < width; x++) {
+          const index = indices[row + x];
+          let bits = bands.get(index);
+          if (!bits) {
+            bits = new Uint8Array(width);
+            bands.set(index, bits);
+          }
+          bits[x] |= 1 << dy;
+        }
+      }
+
+      let first = true;
+      for (const [index, bits] of bands) {
+        if (!first) parts.push("$");
+        first = false;
+        parts.push(`#${index}`);
+
+        let x = 0;
+        while (x < width) {
+          const value = bits[x];
+          let run = 1;
+          while (x + run < width && bits[x + run] === value) run++;
+          const char = String.fromCharCode(63 + value);
+          parts.push(run > 3 ? `!${run}${char}` : char.repeat(run));
+          x += run;
+        }
+      }
+      parts.push("-");
+    }
+
+    parts.push("\x1b\\");
+    return parts.join("");
+  }
+}
+
+// kitty graphics protocol renderer (kitty, Ghostty, WezTerm)
+class KittyRenderer implements Renderer {
+  private static readonly CHUNK_SIZE = 4096;
+
+  getName(): string {
+    return "kitty";
+  }
+
+  supportsMode(_mode: RenderMode): boolean {
+    // Real images: the text mode does not apply
+    return true;
+  }
+
+  getSupportedFormats(): ImageFormat[] {
+    return PixelDecoder.NATIVE_FORMATS;
+  }
+
+  playsAnimations(): boolean {
+    return false;
+  }
+
+  checkDependencies(): Promise<boolean> {
+    // Pixels are decoded natively; other formats are converted before rendering
+    return Promise.resolve(true);
+  }
+
+  getInstallHint(): string[] {
+    return [];
+  }
+
+  async render(buffer: Uint8Array, area: RenderArea, config: Config): Promise<string> {
+    return this.renderFrame(await PixelDecoder.decode(buffer), area, config);
+  }
+
+  renderFrame(source: RgbImage, area: RenderArea, config: Config): Promise<string> {
+    const cell = TerminalUtils.getCellPixelSize();
+    let image = PixelDecoder.resizeToFit(source, area.columns * cell.width, area.rows * cell.height);
+
+    if (!config.colors) {
+      image = PixelDecoder.toGrayscale(image);
+    }
+
+    // Deleting first keeps animation frames from piling up in the terminal's image store
+    const imageColumns = Math.ceil(image.width / cell.width);
+    return Promise.resolve(
+      KittyRenderer.deleteAll() +
+        TerminalUtils.horizontalPadding(imageColumns) +
+        KittyRenderer.encode(image) + "\n",
+    );
+  }
+
+  static deleteAll(): string {
+    return "\x1b_Ga=d,q=2\x1b\\";
+  }
+
+  static encode(image: RgbImage): string {
+    const payload = encodeBase64(image.data);
+    const parts: string[] = [];
+
+    // Payload is sent in 4096 byte chunks; q=2 keeps the terminal from replying on stdin
+    for (let offset = 0; offset < payload.length; offset += KittyRenderer.CHUNK_SIZE) {
+      const chunk = payload.slice(offset, offset + KittyRenderer.CHUNK_SIZE);
+      const more = offset + KittyRenderer.CHUNK_SIZE < payload.length ? 1 : 0;
+      const control = offset === 0
+        ? `a=T,f=24,s=${image.width},v=${image.height},q=2,m=${more}`
+        : `m=${more}`;
+      parts.push(`\x1b_G${control};${chunk}\x1b\\`);
+    }
+
+    return parts.join("");
+  }
+}
+
+// iTerm2 inline images renderer (iTerm2, WezTerm, Konsole, mintty)
+class ITerm2Renderer implements Renderer {
+  getName(): string {
+    return "iterm2";
+  }
+
+  supportsMode(_mode: RenderMode): boolean {
+    // Real images: the text mode does not apply
+    return true;
+  }
+
+  getSupportedFormats(): ImageFormat[] {
+    // Formats every terminal implementing the protocol can display
+    return ["jpeg", "png", "gif", "bmp"];
+  }
+
+  playsAnimations(): boolean {
+    // Animated GIFs are passed through and played by the terminal
+    return true;
+  }
+
+  checkDependencies(): Promise<boolean> {
+    // The terminal decodes the original file itself
+    return Promise.resolve(true);
+  }
+
+  getInstallHint(): string[] {
+    return [];
+  }
+
+  render(buffer: Uint8Array, area: RenderArea, _config: Config): Promise<string> {
+    return Promise.resolve(ITerm2Renderer.encode(buffer, area));
+  }
+
+  async renderFrame(image: RgbImage, area: RenderArea, _config: Config): Promise<string> {
+    return ITerm2Renderer.encode(await PngEncoder.encode(image), area);
+  }
+
+  static encode(buffer: Uint8Array, area: RenderArea): string {
+    // Size the placement to the image so it can be centered; the terminal keeps the aspect ratio
+    const dimensions = ImageHeader.parse(buffer);
+    const fit = dimensions ? TerminalUtils.fitToCells(dimensions, area) : area;
+
+    const args = [
+      "inline=1",
+      `size=${buffer.length}`,
+      `width=${fit.columns}`,
+      `height=${fit.rows}`,
+      "preserveAspectRatio=1",
+    ];
+
+    return TerminalUtils.horizontalPadding(fit.columns) +
+      `\x1b]1337;File=${args.join(";")}:${encodeBase64(buffer)}\x07\n`;
+  }
+}
+
+// Built-in ASCII/ANSI renderer: decodes images itself, no external tools needed
+class BuiltinRenderer implements Renderer {
+  // Same character ramp jp2a uses by default, from darkest to brightest
+  private static readonly RAMP = "   ...',;:clodxkO0KXNWM";
+
+  getName(): string {
+    return "builtin";
+  }
+
+  supportsMode(_mode: RenderMode): boolean {
+    return true;
+  }
+
+  getSupportedFormats(): ImageFormat[] {
+    return PixelDecoder.NATIVE_FORMATS;
+  }
+
+  playsAnimations(): boolean {
+    return false;
+  }
+
+  checkDependencies(): Promise<boolean> {
+    return Promise.resolve(true);
+  }
+
+  getInstallHint(): string[] {
+    return [];
+  }
+
+  async render(buffer: Uint8Array, area: RenderArea, config: Config): Promise<string> {
+    return this.renderFrame(await PixelDecoder.decode(buffer), area, config);
+  }
+
+  renderFrame(image: RgbImage, area: RenderArea, config: Config): Promise<string> {
+    const size = TerminalUtils.fitToCells(image, area);
+
+    let output: string;
+    if (config.mode === "blocks") {
+      // Two pixels per cell: upper half in the foreground, lower half in the background
+      output = BuiltinRenderer.toBlocks(PixelDecoder.resize(image, size.columns, size.rows * 2), config);
+    } else if (config.mode === "braille") {
+      // Eight dots per cell in a 2x4 grid
+      output = BuiltinRenderer.toBraille(PixelDecoder.resize(image, size.columns * 2, size.rows * 4), config);
+    } else {
+      output = BuiltinRenderer.toAnsi(PixelDecoder.resize(image, size.columns, size.rows), config);
+    }
+
+    return Promise.resolve(ImageProcessor.centerAscii(output) + "\n");
+  }
+
+  static toAnsi(cells: RgbImage, config: Config): string {
+    const ramp = config.invert ? [...BuiltinRenderer.RAMP].reverse().join("") : BuiltinRenderer.RAMP;
+    const depth = config.colorDepth;
+    const lines: string[] = [];
+
+    for (let y = 0; y < cells.height; y++) {
+      let line = "";
+      let lastEscape = "";
+
+      for (let x = 0; x < cells.width; x++) {
+        const p = (y * cells.width + x) * 3;
+        const r = cells.data[p];
+        const g = cells.data[p + 1];
+        const b = cells.data[p + 2];
+        const luma = 0.299 * r + 0.587 * g + 0.114 * b;
+        const char = ramp[Math.min(ramp.length - 1, Math.floor((luma / 256) * ramp.length))];
+
+        if (config.colors) {
+          // With --fill the cell background takes a darker shade of the pixel colour
+          let escape = TerminalUtils.colorEscape(r, g, b, false, depth);
+          if (config.fill) {
+            escape += TerminalUtils.colorEscape(r >> 1, g >> 1, b >> 1, true, depth);
+          }
+          if (escape !== lastEscape) {
+            line += escape;
+            lastEscape = escape;
+          }
+        }
+
+        line += char;
+      }
+
+      lines.push(config.colors ? line + "\x1b[0m" : line);
+    }
+
+    return lines.join("\n");
+  }
+
+  static toBlocks(pixels: RgbImage, config: Config): string {
+    const depth = config.colorDepth;
+    const source = config.colors ? pixels : PixelDecoder.toGrayscale(pixels);
+    const data = source.data;
+    const lines: string[] = [];
+
+    for (let y = 0; y + 1 < source.height; y += 2) {
+      let line = "";
+      let lastEscape = "";
+
+      for (let x = 0; x < source.width; x++) {
+        const top = (y * source.width + x) * 3;
+        const bottom = top + source.width * 3;
+        const escape = TerminalUtils.colorEscape(data[top], data[top + 1], data[top + 2], false, depth) +
+          TerminalUtils.colorEscape(data[bottom], data[bottom + 1], data[bottom + 2], true, depth);
+
+        if (escape !== lastEscape) {
+          line += escape;
+          lastEscape = escape;
+        }
+        line += "▀";
+      }
+
+      lines.push(line + "\x1b[0m");
+    }
+
+    return lines.join("\n");
+  }
+
+  static toBraille(pixels: RgbImage, config: Config): string {
+    // Braille dot bits for each (x, y) position inside a 2x4 cell
+    const dotBits = [[0x01, 0x08], [0x02, 0x10], [0x04, 0x20], [0x40, 0x80]];
+    const depth = config.colorDepth;
+    const { width, height, data } = pixels;
+
+    const luma = new Float32Array(width * height);
+    let total = 0;
+    for (let i = 0; i < luma.length; i++) {
+      luma[i] = 0.299 * data[i * 3] + 0.587 * data[i * 3 + 1] + 0.114 * data[i * 3 + 2];
+      total += luma[i];
+    }
+
+    // Threshold on the image's mean brightness so dark and bright photos both keep detail
+    const threshold = total / luma.length;
+    const lines: string[] = [];
+
+    for (let cy = 0; cy < height; cy += 4) {
+      let line = "";
+      let lastEscape = "";
+
+      for (let cx = 0; cx < width; cx += 2) {
+        let bits = 0;
+        let r = 0;
+        let g = 0;
+        let b = 0;
+        let count = 0;
+
+        for (let dy = 0; dy < 4 && cy + dy < height; dy++) {
+          for (let dx = 0; dx < 2 && cx + dx < width; dx++) {
+            const index = (cy + dy) * width + cx + dx;
+            if ((luma[index] > threshold) !== config.invert) {
+              bits |= dotBits[dy][dx];
+            }
+            r += data[index * 3];
+            g += data[index * 3 + 1];
+            b += data[index * 3 + 2];
+            count++;
+          }
+        }
+
+        if (config.colors) {
+          const escape = TerminalUtils.colorEscape(
+            Math.round(r / count),
+            Math.round(g / count),
+            Math.round(b / count),
+            false,
+            depth,
+          );
+          if (escape !== lastEscape) {
+            line += escape;
+            lastEscape = escape;
+          }
+        }
+
+        line += String.fromCharCode(0x2800 + bits);
+      }
+
+      lines.push(config.colors ? line + "\x1b[0m" : line);
+    }
+
+    return lines.join("\n");
+  }
+}
+
+// Renderer registry
+class RendererRegistry {
+  private static renderers: Map<string, Renderer> = new Map<string, Renderer>([
+    ["jp2a", new Jp2aRenderer()],
+    ["chafa", new ChafaRenderer()],
+    ["sixel", new SixelRenderer()],
+    ["kitty", new KittyRenderer()],
+    ["iterm2", new ITerm2Renderer()],
+    ["builtin", new BuiltinRenderer()],
+  ]);
+
+  // Text renderers tried in order when no graphics protocol is detected
+  private static readonly TEXT_FALLBACKS = ["jp2a", "chafa", "builtin"];
+
+  static getRenderer(name: string): Renderer | null {
+    return this.renderers.get(name) ?? null;
+  }
+
+  static getNames(): string[] {
+    return Array.from(this.renderers.keys());
+  }
+
+  static async resolve(requested: string, mode: RenderMode): Promise<Renderer | null> {
+    // Block and braille modes ask for text output, so skip graphics protocol detection
+    if (requested === "auto" && mode !== "ascii") {
+      return this.getFallback();
+    }
+
+    // Pixel based renderers need the cell size, which must be queried before keyboard input starts
+    if (requested === "auto" || requested === "sixel" || requested === "kitty") {
+      await TerminalUtils.probeTerminal();
+    }
+
+    if (requested !== "auto") {
+      return this.getRenderer(requested);
+    }
+
+    const protocol = await TerminalUtils.detectGraphicsProtocol();
+    if (protocol) {
+      const renderer = this.renderers.get(protocol)!;
+      if (await renderer.checkDependencies()) {
+        Logger.info(`Detected ${protocol} graphics support`);
+        return renderer;
+      }
+      Logger.warn(`Detected ${protocol} graphics support but its dependencies are missing`);
+    }
+
+    for (const name of this.TEXT_FALLBACKS) {
+      const renderer = this.renderers.get(name)!;
+      if (await renderer.checkDependencies()) {
+        return renderer;
+      }
+    }
+
+    return this.getFallback();
+  }
+
+  static getFallback(): Renderer {
+    return this.renderers.get("builtin")!;
+  }
+}
+
+// Animation frames rendered to terminal output, ready to be replayed
+interface Animation {
+  frames: string[];
+  delays: number[]; // Milliseconds
+}
+
+// Replays a pre-rendered animation in the image region, driven by the progress bar loop
+class AnimationPlayer {
+  // Browsers stretch near-zero GIF delays to 100ms; do the same so such files don't spin
+  private static readonly MIN_DELAY_MS = 20;
+  private static readonly DEFAULT_DELAY_MS = 100;
+
+  private animation: Animation;
+  private frameIndex = 0;
+  private nextFrameAt: number; // performance.now() time the next frame is due
+  private heldWithRemaining: number | null = null; // Time left on the current frame while paused
+
+  constructor(animation: Animation) {
+    this.animation = animation;
+    this.nextFrameAt = performance.now() + this.getDelay(0);
+  }
+
+  getTimeUntilNextFrame(): number {
+    return Math.max(0, this.nextFrameAt - performance.now());
+  }
+
+  // Holds the current frame while the slideshow is paused
+  pause(): void {
+    this.heldWithRemaining ??= this.getTimeUntilNextFrame();
+  }
+
+  resume(): void {
+    if (this.heldWithRemaining !== null) {
+      this.nextFrameAt = performance.now() + this.heldWithRemaining;
+      this.heldWithRemaining = null;
+    }
+  }
+
+  // Draws the frame that is due by the wall clock. Frames are scheduled on the clock rather than one delay after
+  // the other, so slow renders do not make playback drift; the frames missed while behind are dropped
+  async advance(): Promise<void> {
+    const now = performance.now();
+    if (this.heldWithRemaining !== null || now < this.nextFrameAt) {
+      return;
+    }
+
+    while (this.nextFrameAt <= now) {
+      this.frameIndex = (this.frameIndex + 1) % this.animation.frames.length;
+      this.nextFrameAt += this.getDelay(this.frameIndex);
+    }
+
+    // Frames have the same size, so only the rows that differ from the previous frame are repainted
+    ScreenCompositor.set("image", this.animation.frames[this.frameIndex]);
+    await ScreenCompositor.flush();
+  }
+
+  private getDelay(index: number): number {
+    const delay = this.animation.delays[index];
+    return delay < AnimationPlayer.MIN_DELAY_MS ? AnimationPlayer.DEFAULT_DELAY_MS : delay;
+  }
+}
+
+// Part of the slide that is on screen: a zoom factor and the image point (0-1) at the centre of the view
+class SlideViewport {
+  private static readonly ZOOM_STEP = 1.25;
+  private static readonly MAX_ZOOM = 8;
+  private static readonly PAN_STEP = 0.25; // Fraction of the visible area moved per key press
+
+  zoom = 1;
+  centerX = 0.5;
+  centerY = 0.5;
+
+  isZoomed(): boolean {
+    return this.zoom > 1;
+  }
+
+  reset(): void {
+    this.set(1, 0.5, 0.5);
+  }
+
+  set(zoom: number, centerX: number, centerY: number): void {
+    this.zoom = Math.min(SlideViewport.MAX_ZOOM, Math.max(1, zoom));
+    this.centerX = centerX;
+    this.centerY = centerY;
+    this.clampCenter();
+  }
+
+  // Each of these returns false when the view is already at its limit and nothing needs redrawing
+  zoomIn(): boolean {
+    return this.changeZoom(SlideViewport.ZOOM_STEP);
+  }
+
+  zoomOut(): boolean {
+    return this.changeZoom(1 / SlideViewport.ZOOM_STEP);
+  }
+
+  pan(dx: number, dy: number): boolean {
+    const previous = [this.centerX, this.centerY];
+    this.centerX += (dx * SlideViewport.PAN_STEP) / this.zoom;
+    this.centerY += (dy * SlideViewport.PAN_STEP) / this.zoom;
+    this.clampCenter();
+    return this.centerX !== previous[0] || this.centerY !== previous[1];
+  }
+
+  crop(image: RgbImage): RgbImage {
+    const width = Math.max(1, Math.round(image.width / this.zoom));
+    const height = Math.max(1, Math.round(image.height / this.zoom));
+    const left = Math.min(image.width - width, Math.max(0, Math.round(this.centerX * image.width - width / 2)));
+    const top = Math.min(image.height - height, Math.max(0, Math.round(this.centerY * image.height - height / 2)));
+
+    const data = new Uint8Array(width * height * 3);
+    for (let y = 0; y < height; y++) {
+      const start = ((top + y) * image.width + left) * 3;
+      data.set(image.data.subarray(start, start + width * 3), y * width * 3);
+    }
+    return { width, height, data };
+  }
+
+  private changeZoom(factor: number): boolean {
+    const previous = this.zoom;
+    this.zoom = Math.min(SlideViewport.MAX_ZOOM, Math.max(1, this.zoom * factor));
+    this.clampCenter();
+    return this.zoom !== previous;
+  }
+
+  // Keeps the visible area inside the image
+  private clampCenter(): void {
+    const half = 0.5 / this.zoom;
+    this.centerX = Math.min(1 - half, Math.max(half, this.centerX));
+    this.centerY = Math.min(1 - half, Math.max(half, this.centerY));
+  }
+}
+
+// Slow automatic zoom and pan across a slide over the length of its interval
+class KenBurnsEffect {
+  private static readonly FRAME_INTERVAL_MS = 250; // Every frame crops and resamples the slide again
+  private static readonly ZOOM = 1.3;
+
+  private from: { zoom: number; centerX: number; centerY: number };
+  private to: { zoom: number; centerX: number; centerY: number };
+  private lastFrameAt = -Infinity;
+
+  constructor() {
+    // Zoom in or out at random, drifting between two random points
+    const wide = { zoom: 1, centerX: 0.5, centerY: 0.5 };
+    const close = { zoom: KenBurnsEffect.ZOOM, centerX: Math.random(), centerY: Math.random() };
+    [this.from, this.to] = Math.random() < 0.5 ? [wide, close] : [close, wide];
+  }
+
+  // Moves the viewport to where it belongs at `elapsed`; false when the next frame is not due yet
+  update(viewport: SlideViewport, elapsed: number, totalTime: number): boolean {
+    if (elapsed - this.lastFrameAt < KenBurnsEffect.FRAME_INTERVAL_MS && elapsed < totalTime) {
+      return false;
+    }
+    this.lastFrameAt = elapsed;
+
+    // Ease in and out so the movement starts and stops gently
+    const t = Math.min(1, elapsed / totalTime);
+    const eased = t * t * (3 - 2 * t);
+    const mix = (a: number, b: number) => a + (b - a) * eased;
+
+    viewport.set(
+      mix(this.from.zoom, this.to.zoom),
+      mix(this.from.centerX, this.to.centerX),
+      mix(this.from.centerY, this.to.centerY),
+    );
+    return true;
+  }
+}
+
+// Image processor and display manager
+class ImageProcessor {
+  // Upper bound for the rendered frames of one animation kept in memory
+  private static readonly ANIMATION_BUDGET_BYTES = 64 * 1024 * 1024;
+
+  // Pixels of the last zoomed slide, so zooming and panning don't decode it again, and a copy scaled down
+  // for gentle zooms such as Ken Burns, so each of their frames only crops and resamples a small image
+  private static decoded: {
+    buffer: Uint8Array;
+    image: RgbImage;
+    reduced: { key: string; image: RgbImage } | null;
+  } | null = null;
+
+  static async downloadImage(
+    url: string,
+    timeout: number,
+  ): Promise<Uint8Array> {
+    // Handle local file URLs
+    if (url.startsWith('file://')) {
+      const filePath = url.replace('file://', '');
+      try {
+        const buffer = await Deno.readFile(filePath);
+        Logger.info(
+          `Read local file: ${(buffer.length / 1024 / 1024).toFixed(2)}MB`,
+        );
+        return buffer;
+      } catch (error) {
+        throw new Error(`Failed to read local file: ${(error as Error).message}`);
+      }
+    }
+
+    // Handle remote URLs
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeout);
+
+    try {
+      const response = await fetch(url, { signal: controller.signal });
+
+      if (!response.ok) {
+        throw new Error(`Failed to download image: ${response.status}`);
+      }
+
+      const buffer = new Uint8Array(await response.arrayBuffer());
+      Logger.info(
+        `Downloaded image: ${(buffer.length / 1024 / 1024).toFixed(2)}MB`,
+      );
+      return buffer;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  // Draws the image into the screen's image region; returns the rendered frames when it is animated
+  static async displayImage(
+    buffer: Uint8Array,
+    config: Config,
+    transition: TransitionKind | null = null,
+    viewport: SlideViewport | null = null,
+  ): Promise<Animation | null> {
+    const renderer = RendererRegistry.getRenderer(config.renderer);
+    if (!renderer) {
+      throw new Error(`Unknown renderer: ${config.renderer}`);
+    }
+
+    // Size the image to the space left between the header and the caption
+    const area = ScreenCompositor.getImageArea();
+
+    let output: string;
+    let animation: Animation | null = null;
+
+    try {
+      if (viewport?.isZoomed()) {
+        // A zoomed view is a still of the cropped first frame, so animations stop while zoomed
+        const image = viewport.crop(await this.viewportSource(buffer, viewport.zoom, area));
+        output = await renderer.renderFrame(image, area, config);
+      } else {
+        if (ImageHeader.isAnimated(buffer) && !renderer.playsAnimations()) {
+          animation = await this.renderAnimation(buffer, renderer, area, config);
+        }
+
+        if (animation) {
+          output = animation.frames[0];
+        } else {
+          const normalized = await FormatConverter.normalize(buffer, renderer.getSupportedFormats());
+          output = await renderer.render(normalized, area, config);
+        }
+      }
+    } catch (error) {
+      // Graceful error handling for renderer failures
+      await this.showImage(this.formatErrorMessage(error as Error, config, area), config);
+      if (error instanceof RenderError) {
+        throw error; // Re-throw to let caller handle continuation
+      }
+      throw new RenderError((error as Error).message);
+    }
+
+    if (transition && config.transitionMs > 0) {
+      const incoming = output.split("\n").slice(0, area.rows);
+      await SlideTransition.play(
+        transition,
+        ScreenCompositor.get("image"),
+        incoming,
+        config.transitionMs,
+        config.colorDepth,
+      );
+    }
+
+    await this.showImage(output, config);
+    return animation;
+  }
+
+  // Draws a Ken Burns frame of the slide already on screen, repainting only the rows that changed
+  static async displayViewport(buffer: Uint8Array, config: Config, viewport: SlideViewport): Promise<void> {
+    const renderer = RendererRegistry.getRenderer(config.renderer);
+    if (!renderer) {
+      throw new Error(`Unknown renderer: ${config.renderer}`);
+    }
+
+    const area = ScreenCompositor.getImageArea();
+    const image = viewport.crop(await this.viewportSource(buffer, viewport.zoom, area));
+    await this.showImage(await renderer.renderFrame(image, area, config), config, false);
+  }
+
+  static async displayContactSheet(sheet: ContactSheet, config: Config): Promise<void> {
+    const area = ScreenCompositor.getImageArea();
+
+    // Thumbnails are rendered one by one, so the previous screen stays up until all of them are ready
+    let lines: string[];
+    LoadingAnimation.start("Rendering contact sheet...");
+    try {
+      lines = await sheet.render(area, config);
+    } finally {
+      LoadingAnimation.stop();
+    }
+
+    await this.showImage(lines, config);
+  }
+
+  private static async showImage(output: string | string[], config: Config, repaintAll = true): Promise<void> {
+    const lines = typeof output === "string" ? output.split("\n") : [...output];
+
+    // Kitty images are not stored in the text cells, so erasing the rows would leave the old one up
+    if (config.renderer === "kitty" && ScreenCompositor.isActive()) {
+      lines[0] = KittyRenderer.deleteAll() + (lines[0] ?? "");
+    }
+
+    // Every row of a new image is redrawn so nothing of the previous one survives, even where lines are equal
+    if (repaintAll) {
+      ScreenCompositor.invalidate("image");
+    }
+    ScreenCompositor.set("image", lines);
+    await ScreenCompositor.flush();
+  }
+
+  // The slide is decoded once. Up to 2x zoom the view is cut from a copy at twice the image area's pixel size,
+  // which still has more detail than the terminal shows
+  private static async viewportSource(buffer: Uint8Array, zoom: number, area: RenderArea): Promise<RgbImage> {
+    if (this.decoded?.buffer !== buffer) {
+      const normalized = await FormatConverter.normalize(buffer, PixelDecoder.NATIVE_FORMATS);
+      this.decoded = { buffer, image: await PixelDecoder.decode(normalized), reduced: null };
+    }
+
+    const { image } = this.decoded;
+    const cell = TerminalUtils.getCellPixelSize();
+    const size = PixelDecoder.fitWithin(
+      image.width,
+      image.height,
+      area.columns * cell.width * 2,
+      area.rows * cell.height * 2,
+    );
+    if (zoom > 2 || size.width >= image.width) {
+      return image;
+    }
+
+    const key = `${size.width}x${size.height}`;
+    if (this.decoded.reduced?.key !== key) {
+      this.decoded.reduced = { key, image: PixelDecoder.resize(image, size.width, size.height) };
+    }
+    return this.decoded.reduced.image;
+  }
+
+  private static async renderAnimation(
+    buffer: Uint8Array,
+    renderer: Renderer,
+    area: RenderArea,
+    config: Config,
+  ): Promise<Animation | null> {
+    const frames = ImageHeader.sniffFormat(buffer) === "gif"
+      ? GifDecoder.decodeFrames(buffer)
+      : PngDecoder.decodeFrames(buffer);
+
+    const animation: Animation = { frames: [], delays: [] };
+    let totalBytes = 0;
+
+    LoadingAnimation.start("Rendering animation frames...");
+    try {
+      for await (const frame of frames) {
+        const output = await renderer.renderFrame(frame.image, area, config);
+        totalBytes += output.length;
+        if (totalBytes > this.ANIMATION_BUDGET_BYTES) {
+          Logger.warn("Animation is too large to keep in memory, showing the first frame only");
+          return null;
+        }
+        animation.frames.push(output);
+        animation.delays.push(frame.delay);
+      }
+    } finally {
+      LoadingAnimation.stop();
+    }
+
+    return animation.frames.length > 1 ? animation : null;
+  }
+
+  private static formatErrorMessage(error: Error, config: Config, area: RenderArea): string[] {
+    const terminalWidth = TerminalUtils.getTerminalWidth();
+
+    // Create error display
+    const errorLines = [
+      "❌ Failed to convert image to ASCII art",
+      "",
+      "Possible causes:",
+      "• Corrupted or unsupported image format",
+      `• ${config.renderer} encountered an internal error`,
+      "• Insufficient system resources",
+      "",
+      "The slideshow will continue with the next image...",
+      "",
+      `Error details: ${error.message}`,
+    ];
+
+    // Center the error message
+    const maxLineLength = Math.max(...errorLines.map(line => line.length));
+    const padding = Math.max(0, Math.floor((terminalWidth - maxLineLength) / 2));
+
+    // Add some vertical padding
+    const lines: string[] = new Array(Math.floor(area.rows / 4)).fill("");
+
+    errorLines.forEach(line => {
+      if (line === "") {
+        lines.push("");
+        return;
+      }
+
+      let coloredLine = line;
+      if (line.startsWith("❌")) {
+        coloredLine = Theme.paint("error", line);
+      } else if (line.startsWith("•")) {
+        coloredLine = Theme.paint("warning", line);
+      } else if (line.startsWith("The slideshow")) {
+        coloredLine = Theme.paint("success", line);
+      } else if (line.startsWith("Error details:")) {
+        coloredLine = Theme.paint("muted", line);
+      } else if (line === "Possible causes:") {
+        coloredLine = Theme.paint("title", line);
+      }
+
+      lines.push(" ".repeat(padding) + coloredLine);
+    });
+
+    return lines;
+  }
+
+  static centerAscii(asciiOutput: string): string {
+    const terminalWidth = TerminalUtils.getTerminalWidth();
+
+    return asciiOutput.split('\n').map(line => {
+      if (line.trim().length === 0) {
+        return ""; // Preserve empty lines
+      }
+
+      // Calculate padding to center the line (ignoring colour escape sequences)
+      const padding = Math.max(0, Math.floor((terminalWidth - stripColor(line).length) / 2));
+      return ' '.repeat(padding) + line;
+    }).join('\n');
+  }
+
+  static async saveImage(
+    buffer: Uint8Array,
+    slideImage: SlideImage,
+    outputDir: string,
+  ): Promise<string> {
+    // Clean filename and remove URL parameters
+    let fileName = "";
+    let subDir = "";
+
+    if (slideImage.source === "pexels") {
+      // Extract clean filename from Pexels URL and remove query parameters
+      const urlParts = slideImage.url.split("/");
+      const rawFileName = urlParts[urlParts.length - 1] || `pexels-${Date.now()}.jpg`;
+      // Remove everything after ? to clean URL parameters
+      fileName = rawFileName.split("?")[0];
+      // Ensure it has an extension
+      if (!fileName.includes(".")) {
+        fileName += ".jpg";
+      }
+      subDir = "pexels";
+    } else if (slideImage.source === "waifu") {
+      // Extract filename from Waifu URL
+      const urlParts = slideImage.url.split("/");
+      fileName = urlParts[urlParts.length - 1] || `waifu-${Date.now()}.jpg`;
       // Remove query parameters if any
       fileName = fileName.split("?")[0];
       // Ensure it has an extension
       if (!fileName.includes(".")) {
         fileName += ".jpg";
       }
-      // Determine NSFW or SFW subdirectory
-      const isNsfw = slideImage.isNsfw || slideImage.tags?.some(tag =>
-        ["ass", "hentai", "milf", "oral", "paizuri", "ecchi", "ero"].includes(tag.toLowerCase())
-      ) || false;
-      subDir = `waifus/${isNsfw ? "NSFW" : "SFW"}`;
+      // Determine NSFW or SFW subdirectory
+      const isNsfw = slideImage.isNsfw || slideImage.tags?.some(tag =>
+        ["ass", "hentai", "milf", "oral", "paizuri", "ecchi", "ero"].includes(tag.toLowerCase())
+      ) || false;
+      subDir = `waifus/${isNsfw ? "NSFW" : "SFW"}`;
+    } else {
+      // Default handling for other sources
+      const urlParts = slideImage.url.split("/");
+      fileName = urlParts[urlParts.length - 1] || `slide-${Date.now()}.jpg`;
+      fileName = fileName.split("?")[0]; // Remove query parameters
+      if (!fileName.includes(".")) {
+        fileName += ".jpg";
+      }
+      subDir = slideImage.source;
+    }
+
+    // Create the full directory path
+    const fullDir = subDir ? `${outputDir}/${subDir}` : outputDir;
+    const savePath = `${fullDir}/${fileName}`;
+
+    try {
+      // Create directory if it doesn't exist
+      await Deno.mkdir(fullDir, { recursive: true });
+
+      // Check if file already exists
+      await Deno.stat(savePath);
+      Logger.debug(`Image already exists: ${savePath}`);
+    } catch {
+      // File doesn't exist, save it
+      await Deno.writeFile(savePath, buffer);
+      Logger.success(`Saved image: ${savePath}`);
+    }
+
+    return savePath;
+  }
+}
+
+// Graphics capabilities reported by the terminal
+interface TerminalCapabilities {
+  kittyGraphics: boolean;
+  sixel: boolean;
+  cellWidth: number;
+  cellHeight: number;
+}
+
+// Utility classes for UI components
+class TerminalUtils {
+  private static capabilities: TerminalCapabilities | null = null;
+  private static pendingRead: Promise<Uint8Array | null> | null = null; // A read nobody has taken the bytes of yet
+  private static unreadInput: Uint8Array[] = [];
+
+  // Replies to the capability query (written as strings, as control characters are not allowed in regex literals)
+  private static readonly KITTY_REPLY = new RegExp("\x1b_G[^\x1b]*\x1b\\\\");
+  private static readonly CELL_SIZE_REPLY = new RegExp("\x1b\\[6;(\\d+);(\\d+)t");
+  private static readonly DEVICE_ATTRIBUTES_REPLY = new RegExp("\x1b\\[\\?([\\d;]*)c");
+
+  static getTerminalWidth(): number {
+    try {
+      return Deno.consoleSize().columns;
+    } catch {
+      return 80; // fallback width
+    }
+  }
+
+  // Titled box of keys and what they do, centered on the terminal
+  static panel(title: string, rows: [string, string][]): string[] {
+    const heading = ` ${title} `;
+    const keyWidth = Math.max(...rows.map(([keys]) => keys.length));
+    const width = Math.max(heading.length, ...rows.map(([, description]) => keyWidth + 2 + description.length));
+    const padding = " ".repeat(Math.max(0, Math.floor((this.getTerminalWidth() - width - 4) / 2)));
+    const border = (text: string) => Theme.paint("title", text);
+
+    return [
+      border(`┌─${heading}${"─".repeat(width - heading.length)}─┐`),
+      ...rows.map(([keys, description]) =>
+        `${border("│")} ${Theme.paint("key", keys.padEnd(keyWidth))}  ${
+          Theme.paint("text", description.padEnd(width - keyWidth - 2))
+        } ${border("│")}`
+      ),
+      border(`└${"─".repeat(width + 2)}┘`),
+    ].map((line) => padding + line);
+  }
+
+  static getTerminalSize(): { rows: number; columns: number } {
+    try {
+      return Deno.consoleSize();
+    } catch {
+      return { rows: 24, columns: 80 }; // fallback size
+    }
+  }
+
+  static async writeAll(text: string): Promise<void> {
+    const data = new TextEncoder().encode(text);
+    let written = 0;
+    while (written < data.length) {
+      written += await Deno.stdout.write(data.subarray(written));
+    }
+  }
+
+  static horizontalPadding(contentColumns: number): string {
+    // Move the cursor right instead of printing spaces so graphics land centered
+    const padding = Math.max(0, Math.floor((this.getTerminalWidth() - contentColumns) / 2));
+    return padding > 0 ? `\x1b[${padding}C` : "";
+  }
+
+  static getCellPixelSize(): { width: number; height: number } {
+    return {
+      width: this.capabilities?.cellWidth ?? 10,
+      height: this.capabilities?.cellHeight ?? 20,
+    };
+  }
+
+  // Reads the next bytes from stdin, or undefined when nothing came within `timeoutMs`. A read that timed out stays
+  // pending and goes to the next caller, so a key pressed during the terminal probe still reaches KeyboardHandler
+  static async readInput(timeoutMs = Infinity): Promise<Uint8Array | null | undefined> {
+    const unread = this.unreadInput.shift();
+    if (unread) return unread;
+
+    // Large enough for a burst of keys or a paste; the input decoder keeps anything cut off for the next read
+    const buffer = new Uint8Array(4096);
+    this.pendingRead ??= Deno.stdin.read(buffer).then((nread) => nread === null ? null : buffer.subarray(0, nread));
+    const read = this.pendingRead;
+
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<undefined>((resolve) => {
+      if (timeoutMs !== Infinity) {
+        timeoutId = setTimeout(() => resolve(undefined), Math.max(0, timeoutMs));
+      }
+    });
+    const bytes = await Promise.race([read, timeout]);
+    clearTimeout(timeoutId);
+
+    if (bytes !== undefined) {
+      this.pendingRead = null;
+    }
+    return bytes;
+  }
+
+  static async probeTerminal(): Promise<TerminalCapabilities> {
+    if (this.capabilities) {
+      return this.capabilities;
+    }
+
+    const capabilities: TerminalCapabilities = {
+      kittyGraphics: false,
+      sixel: false,
+      cellWidth: 10,
+      cellHeight: 20,
+    };
+    this.capabilities = capabilities;
+
+    if (!Deno.stdin.isTerminal() || !Deno.stdout.isTerminal()) {
+      return capabilities;
+    }
+
+    // kitty graphics query, cell size report, then primary device attributes.
+    // Every terminal answers DA1, so its reply marks the end of the responses.
+    const query = "\x1b_Gi=31,s=1,v=1,a=q,t=d,f=24;AAAA\x1b\\\x1b[16t\x1b[c";
+    let response = "";
+
+    try {
+      Deno.stdin.setRaw(true);
+      await this.writeAll(query);
+
+      const decoder = new TextDecoder();
+      const deadline = Date.now() + 1000;
+
+      while (!this.DEVICE_ATTRIBUTES_REPLY.test(response) && Date.now() < deadline) {
+        const bytes = await this.readInput(deadline - Date.now());
+        if (!bytes) break;
+        response += decoder.decode(bytes, { stream: true });
+      }
+    } catch (error) {
+      Logger.warn(`Terminal capability query failed: ${(error as Error).message}`);
+    } finally {
+      try {
+        Deno.stdin.setRaw(false);
+      } catch {
+        // Ignore errors when disabling raw mode
+      }
+    }
+
+    capabilities.kittyGraphics = response.includes("\x1b_Gi=31;OK");
+
+    const cellSize = response.match(this.CELL_SIZE_REPLY);
+    if (cellSize && parseInt(cellSize[1]) > 0 && parseInt(cellSize[2]) > 0) {
+      capabilities.cellHeight = parseInt(cellSize[1]);
+      capabilities.cellWidth = parseInt(cellSize[2]);
+    }
+
+    const attributes = response.match(this.DEVICE_ATTRIBUTES_REPLY);
+    capabilities.sixel = attributes ? attributes[1].split(";").includes("4") : false;
+
+    // Keys typed while the terminal answered are kept for the keyboard handler
+    const typed = response
+      .replace(this.KITTY_REPLY, "")
+      .replace(this.CELL_SIZE_REPLY, "")
+      .replace(this.DEVICE_ATTRIBUTES_REPLY, "");
+    if (typed) {
+      this.unreadInput.push(new TextEncoder().encode(typed));
+    }
+
+    Logger.debug(`Terminal capabilities: ${JSON.stringify(capabilities)}`);
+    return capabilities;
+  }
+
+  static async detectGraphicsProtocol(): Promise<"kitty" | "iterm2" | "sixel" | null> {
+    const term = Deno.env.get("TERM") ?? "";
+    const termProgram = Deno.env.get("TERM_PROGRAM") ?? "";
+
+    // Environment hints are cheaper and more reliable than queries where available
+    if (termProgram === "iTerm.app" || termProgram === "WezTerm") {
+      return "iterm2";
+    }
+    if (term === "xterm-kitty" || termProgram === "ghostty" || Deno.env.get("KITTY_WINDOW_ID")) {
+      return "kitty";
+    }
+
+    const capabilities = await this.probeTerminal();
+    if (capabilities.kittyGraphics) return "kitty";
+    if (capabilities.sixel) return "sixel";
+    return null;
+  }
+
+  static fitToCells(dimensions: ImageDimensions, area: RenderArea): RenderArea {
+    // Character cells are roughly twice as tall as they are wide (or whatever the terminal reported)
+    const cell = this.getCellPixelSize();
+    const cellAspect = cell.height / cell.width;
+    const imageAspect = dimensions.width / dimensions.height;
+
+    // Largest size that fits both dimensions of the area while keeping the image's aspect ratio
+    const columns = Math.max(1, Math.min(area.columns, Math.round(area.rows * cellAspect * imageAspect)));
+    const rows = Math.max(1, Math.min(area.rows, Math.round(columns / imageAspect / cellAspect)));
+    return { columns, rows };
+  }
+
+  // FORCE_COLOR=1, 2 or 3 picks the depth, otherwise COLORTERM and TERM describe the terminal
+  static detectColorDepth(): ColorDepth {
+    const forced: Record<string, ColorDepth> = { "1": "16", "2": "256", "3": "truecolor" };
+    const force = forced[Deno.env.get("FORCE_COLOR") ?? ""];
+    if (force) return force;
+
+    const colorTerm = Deno.env.get("COLORTERM");
+    const term = Deno.env.get("TERM") ?? "";
+    if (colorTerm === "truecolor" || colorTerm === "24bit" || term.endsWith("-direct")) return "truecolor";
+
+    // The Linux VT and other consoles without a 256 colour palette
+    if (/^(linux|ansi|cons\d*|vt\d+|rxvt|screen|tmux)$/.test(term)) return "16";
+    return "256";
+  }
+
+  // Colours in the interface, following https://no-color.org and https://force-color.org (FORCE_COLOR wins)
+  static interfaceColorsEnabled(): boolean {
+    const force = Deno.env.get("FORCE_COLOR");
+    if (force !== undefined) return force !== "0" && force !== "false";
+    if (Deno.env.get("NO_COLOR")) return false;
+    return Deno.stdout.isTerminal() && Deno.env.get("TERM") !== "dumb";
+  }
+
+  // Index of the closest of the 16 basic colours; green differences count most, as they do to the eye
+  static rgbTo16(r: number, g: number, b: number): number {
+    let best = 0;
+    let bestDistance = Infinity;
+    CellGrid.BASIC_COLORS.forEach(([pr, pg, pb], index) => {
+      const distance = 2 * (r - pr) ** 2 + 4 * (g - pg) ** 2 + 3 * (b - pb) ** 2;
+      if (distance < bestDistance) {
+        best = index;
+        bestDistance = distance;
+      }
+    });
+    return best;
+  }
+
+  static rgbTo256(r: number, g: number, b: number): number {
+    // Near-greys map to the 24 step greyscale ramp, everything else to the 6x6x6 cube
+    if (Math.abs(r - g) < 10 && Math.abs(g - b) < 10) {
+      const gray = (r + g + b) / 3;
+      if (gray < 4) return 16;
+      if (gray > 246) return 231;
+      return 232 + Math.round(((gray - 8) / 238) * 23);
+    }
+    const level = (value: number) => value < 48 ? 0 : value < 115 ? 1 : Math.floor((value - 35) / 40);
+    return 16 + 36 * level(r) + 6 * level(g) + level(b);
+  }
+
+  static colorEscape(r: number, g: number, b: number, background: boolean, depth: ColorDepth): string {
+    const layer = background ? 48 : 38;
+    switch (depth) {
+      case "truecolor":
+        return `\x1b[${layer};2;${r};${g};${b}m`;
+      case "256":
+        return `\x1b[${layer};5;${this.rgbTo256(r, g, b)}m`;
+      case "16":
+        return `\x1b[${this.basicColorCode(this.rgbTo16(r, g, b), background)}m`;
+    }
+  }
+
+  // SGR code of one of the 16 basic colours: 30-37 and 90-97, or 40-47 and 100-107 for backgrounds
+  static basicColorCode(index: number, background: boolean): number {
+    return (background ? 40 : 30) + (index >= 8 ? 60 : 0) + index % 8;
+  }
+
+  static wrapText(text: string, width: number): string[] {
+    const words = text.split(" ");
+    const lines: string[] = [];
+    let currentLine = "";
+
+    for (const word of words) {
+      if ((currentLine + " " + word).length <= width) {
+        currentLine = currentLine ? currentLine + " " + word : word;
+      } else {
+        if (currentLine) lines.push(currentLine);
+        currentLine = word;
+      }
+    }
+
+    if (currentLine) lines.push(currentLine);
+    return lines;
+  }
+
+  // Caption lines for the configured format and position, cut to --caption-lines
+  static formatCaption(slideImage: SlideImage, config: Config): string[] {
+    const terminalWidth = this.getTerminalWidth();
+    let lines = config.captionFormat !== null
+      ? config.captionFormat.split("\\n").flatMap((template) =>
+        this.wrapText(this.fillCaptionTemplate(template, slideImage), terminalWidth).map((line) =>
+          Theme.paint("caption", line)
+        )
+      )
+      : this.defaultCaptionLines(slideImage, terminalWidth);
+
+    if (lines.length > config.captionLines) {
+      // The last line that fits ends in an ellipsis, so it is clear there was more
+      const last = stripColor(lines[config.captionLines - 1]).slice(0, terminalWidth - 1);
+      lines = [...lines.slice(0, config.captionLines - 1), Theme.paint("muted", last + "…")];
+    }
+
+    switch (config.captionPosition) {
+      case "statusline":
+        return [lines.join(Theme.paint("muted", " | "))];
+      case "overlay":
+        // Centered like subtitles, so the image shows on both sides
+        return lines.map((line) => {
+          const padding = Math.max(0, Math.floor((terminalWidth - stripColor(line).length) / 2));
+          return " ".repeat(padding) + line;
+        });
+      default: {
+        const separator = Theme.paint("separator", "=".repeat(terminalWidth));
+        return [separator, ...lines, separator];
+      }
+    }
+  }
+
+  // Replaces {source}, {artist}, {tags}, {caption}, {description}, {width}, {height}, {filename}, {date}
+  // and the EXIF fields {camera}, {lens}, {shutter}, {aperture}, {iso}, {focal}, {taken} and {gps}
+  static fillCaptionTemplate(template: string, slideImage: SlideImage): string {
+    const fileName = decodeURIComponent(basename(slideImage.url.split("?")[0]));
+    const values: Record<string, string> = {
+      source: slideImage.source,
+      artist: slideImage.artist ?? "",
+      tags: slideImage.tags?.join(" • ") ?? "",
+      caption: slideImage.caption ?? "",
+      description: slideImage.description ?? "",
+      width: slideImage.width?.toString() ?? "?",
+      height: slideImage.height?.toString() ?? "?",
+      filename: fileName,
+      date: slideImage.date?.toLocaleDateString() ?? "",
+      ...this.exifCaptionValues(slideImage.exif),
+    };
+
+    // Unknown placeholders are left as they are, so typos show up in the caption
+    return template.replace(/\{(\w+)\}/g, (placeholder, name) => values[name] ?? placeholder).trim();
+  }
+
+  // EXIF fields as caption text, empty when the photo does not record them
+  private static exifCaptionValues(exif: ExifData | undefined): Record<string, string> {
+    const shutter = exif?.exposureTime;
+    const { latitude, longitude } = exif ?? {};
+
+    return {
+      camera: exif?.camera ?? "",
+      lens: exif?.lens ?? "",
+      shutter: !shutter ? "" : shutter >= 1 ? `${Math.round(shutter * 10) / 10}s` : `1/${Math.round(1 / shutter)}s`,
+      aperture: exif?.fNumber ? `f/${Math.round(exif.fNumber * 10) / 10}` : "",
+      iso: exif?.iso?.toString() ?? "",
+      focal: exif?.focalLength ? `${Math.round(exif.focalLength)}mm` : "",
+      taken: exif?.dateTaken
+        ? `${exif.dateTaken.toLocaleDateString()} ${
+          exif.dateTaken.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })
+        }`
+        : "",
+      gps: latitude !== undefined && longitude !== undefined
+        ? `${Math.abs(latitude).toFixed(5)}°${latitude < 0 ? "S" : "N"}, ${Math.abs(longitude).toFixed(5)}°${
+          longitude < 0 ? "W" : "E"
+        }`
+        : "",
+    };
+  }
+
+  // Source and artist, caption, description and tags, each in its own colour
+  private static defaultCaptionLines(slideImage: SlideImage, terminalWidth: number): string[] {
+    const lines: string[] = [];
+
+    // Source and artist line
+    let sourceInfo = `📷 Source: ${Theme.paint("strong", slideImage.source.toUpperCase())}`;
+    if (slideImage.artist) {
+      sourceInfo += ` | 🎨 ${Theme.paint("strong", slideImage.artist)}`;
+    }
+    lines.push(sourceInfo);
+
+    // Camera settings, when and where the photo was taken
+    const exif = this.exifCaptionValues(slideImage.exif);
+    const exposure = [exif.shutter, exif.aperture, exif.iso && `ISO ${exif.iso}`, exif.focal].filter(Boolean).join(" ");
+    const exifParts = [
+      exif.camera && `📸 ${exif.camera}`,
+      exif.lens,
+      exposure,
+      exif.taken && `🕒 ${exif.taken}`,
+      exif.gps && `📍 ${exif.gps}`,
+    ].filter(Boolean);
+    if (exifParts.length > 0) {
+      this.wrapText(exifParts.join(" | "), terminalWidth).forEach((line) => lines.push(Theme.paint("text", line)));
+    }
+
+    // Caption or description
+    if (slideImage.caption) {
+      this.wrapText(slideImage.caption, terminalWidth).forEach((line) => lines.push(Theme.paint("caption", line)));
+    }
+
+    if (slideImage.description) {
+      const descLines = this.wrapText(`📝 ${slideImage.description}`, terminalWidth);
+      descLines.forEach((line) => lines.push(Theme.paint("description", line)));
+    }
+
+    // Tags if available
+    if (slideImage.tags && slideImage.tags.length > 0) {
+      const tagText = slideImage.tags.join(" • ");
+      const tagLines = this.wrapText(`🏷️  ${tagText}`, terminalWidth);
+      tagLines.forEach((line) => lines.push(Theme.paint("tags", line)));
+    }
+
+    return lines;
+  }
+}
+
+// Named areas of the slideshow screen
+type ScreenRegion = "header" | "image" | "caption" | "panel" | "toast" | "status" | "prompt";
+
+// Position of a region on screen, with 1-based rows
+interface RegionLayout {
+  top: number;
+  height: number;
+}
+
+// Draws the slideshow on the alternate screen as named regions, repainting only the rows that changed
+class ScreenCompositor {
+  private static readonly HEADER_HEIGHT = 3; // Title, key bindings and a blank line
+  private static readonly TOAST_DURATION_MS = 2500;
+
+  private static active = false;
+  private static size = { columns: 0, rows: 0 };
+  private static content = new Map<ScreenRegion, string[]>();
+  private static drawnRows = new Map<number, string>();
+  private static toastExpiresAt = 0;
+  private static pendingWrite: Promise<void> = Promise.resolve();
+  private static captionPosition: CaptionPosition = "bottom";
+
+  static isActive(): boolean {
+    return this.active;
+  }
+
+  static setCaptionPosition(position: CaptionPosition): void {
+    this.captionPosition = position;
+    this.drawnRows.clear();
+  }
+
+  static enter(mouse = false): void {
+    if (this.active) return;
+    this.active = true;
+    this.size = TerminalUtils.getTerminalSize();
+    this.drawnRows.clear();
+
+    // Alternate screen, hidden cursor and no autowrap, so long lines can never scroll the layout
+    const setup = "\x1b[?1049h\x1b[?25l\x1b[?7l\x1b[H\x1b[2J";
+
+    // Bracketed paste, and SGR mouse reports of clicks and the wheel; input modes are not recorded,
+    // so a replay never takes over the viewer's mouse
+    const inputModes = "\x1b[?2004h" + (mouse ? "\x1b[?1000h\x1b[?1006h" : "");
+    Deno.stdout.writeSync(new TextEncoder().encode(setup + inputModes));
+    SessionRecorder.output(setup);
+  }
+
+  static leave(): void {
+    if (!this.active) return;
+    this.active = false;
+
+    // Switching back to the main screen restores the user's terminal content
+    const restore = "\x1b[?7h\x1b[?25h\x1b[?1049l";
+    Deno.stdout.writeSync(new TextEncoder().encode("\x1b[?1006l\x1b[?1000l\x1b[?2004l" + restore));
+    SessionRecorder.output(restore);
+  }
+
+  static set(region: ScreenRegion, content: string | string[]): void {
+    const lines = typeof content === "string" ? content.split("\n") : content;
+
+    // Renderer output ends with a newline, which is not an extra row
+    if (lines.length > 0 && lines[lines.length - 1] === "") {
+      lines.pop();
+    }
+    this.content.set(region, lines);
+  }
+
+  static get(region: ScreenRegion): string[] {
+    return this.content.get(region) ?? [];
+  }
+
+  // Forces every row of the region to be erased and drawn again, e.g. to remove a previous graphic
+  static invalidate(region: ScreenRegion): void {
+    const { top, height } = this.getLayout()[region];
+    for (let row = top; row < top + height; row++) {
+      this.drawnRows.delete(row);
+    }
+  }
+
+  static toast(message: string): void {
+    const padding = Math.max(0, Math.floor((this.size.columns - stripColor(message).length) / 2));
+    this.set("toast", [" ".repeat(padding) + message]);
+    this.toastExpiresAt = Date.now() + this.TOAST_DURATION_MS;
+  }
+
+  // Region drawn on a 1-based screen row, for mouse clicks; the panel counts before what it covers
+  static regionAt(row: number): ScreenRegion | null {
+    const layout = this.getLayout();
+    const regions: ScreenRegion[] = ["prompt", "panel", "toast", "status", "header", "caption", "image"];
+    return regions.find((region) => row >= layout[region].top && row < layout[region].top + layout[region].height) ??
+      null;
+  }
+
+  // Cell area left for the image between the header and the caption
+  static getImageArea(): RenderArea {
+    this.updateSize();
+    return {
+      rows: Math.max(1, this.getLayout().image.height),
+      columns: Math.max(1, this.size.columns - 4), // Reserve 2 chars padding on each side
+    };
+  }
+
+  static async flush(): Promise<void> {
+    if (!this.active) return;
+
+    if (this.toastExpiresAt && Date.now() >= this.toastExpiresAt) {
+      this.toastExpiresAt = 0;
+      this.content.set("toast", []);
+    }
+
+    this.updateSize();
+
+    // Bottom to top: rows erased below a graphic must not wipe the graphic drawn above them
+    const rows = this.composeRows();
+    let output = "";
+    for (let row = this.size.rows; row >= 1; row--) {
+      const line = rows.get(row) ?? "";
+      if (this.drawnRows.get(row) !== line) {
+        output += `\x1b[${row};1H\x1b[2K${line}`;
+        this.drawnRows.set(row, line);
+      }
+    }
+
+    if (output.length === 0) return;
+
+    // Synchronized update, where supported, so the terminal shows the whole change at once
+    const frame = `\x1b[?2026h${output}\x1b[?2026l`;
+    SessionRecorder.output(frame);
+    const write = this.pendingWrite.then(() => TerminalUtils.writeAll(frame));
+    // A failed write (the terminal went away) must not reject every later frame queued behind it
+    this.pendingWrite = write.catch((error) => Logger.error("Screen write failed", error as Error));
+    await write;
+  }
+
+  // Flushes from key handlers and timers that do not wait; a failed write is already logged by the chain
+  static flushInBackground(): void {
+    this.flush().catch(() => {});
+  }
+
+  // Writes the image and caption as plain lines, for headless output to a pipe or the main screen
+  static async print(): Promise<void> {
+    const lines = this.captionPosition === "top"
+      ? [...this.get("caption"), ...this.get("image")]
+      : [...this.get("image"), ...this.get("caption")];
+    const text = lines.map((line) => line + "\n").join("");
+    // A terminal turns each line feed into a carriage return and line feed, the recording has to say so
+    SessionRecorder.output(text.replaceAll("\n", "\r\n"));
+    await TerminalUtils.writeAll(text);
+  }
+
+  private static composeRows(): Map<number, string> {
+    const rows = new Map<number, string>();
+    const layout = this.getLayout();
+
+    for (const [region, { top, height }] of Object.entries(layout) as [ScreenRegion, RegionLayout][]) {
+      const lines = this.content.get(region) ?? [];
+      for (let i = 0; i < Math.min(height, lines.length); i++) {
+        // An overlaid caption and the panel are drawn over the image rows laid out before them
+        const under = rows.get(top + i);
+        const overlaid = (region === "caption" || region === "panel") && under !== undefined;
+        rows.set(top + i, overlaid ? this.overlay(under, lines[i]) : lines[i]);
+      }
+    }
+
+    // The status line caption follows the progress bar, the terminal clips whatever does not fit
+    const caption = this.content.get("caption")?.[0];
+    const prompting = (this.content.get("prompt")?.length ?? 0) > 0;
+    if (this.captionPosition === "statusline" && caption && !prompting) {
+      const status = (rows.get(layout.status.top) ?? "").trimStart();
+      rows.set(layout.status.top, status ? `${status}  ${caption}` : caption);
+    }
+    return rows;
+  }
+
+  // Replaces the image cells under the text and one cell either side, leaving the rest of the row visible;
+  // rows of graphics are not made of cells and are replaced by the text
+  private static overlay(under: string, over: string): string {
+    const base = CellGrid.parse([under], 1, this.size.columns);
+    const text = CellGrid.parse([over], 1, this.size.columns);
+    if (!base || !text) return over;
+
+    const start = text[0].findIndex((cell) => cell.char !== " ");
+    const end = text[0].findLastIndex((cell) => cell.char !== " ") + 1;
+    if (start === -1) return under;
+
+    // Emoji take two cells and variation selectors none, so the image resumes where the text really ends
+    const left = Math.max(0, start - 1);
+    const covered = text[0].slice(left, end + 1);
+    const extraWidth = covered.reduce((sum, { char }) => {
+      const codePoint = char.codePointAt(0)!;
+      return sum + (codePoint >= 0x1f000 ? 1 : codePoint === 0xfe0f ? -1 : 0);
+    }, 0);
+
+    const merged = [...base[0].slice(0, left), ...covered, ...base[0].slice(end + 1 + extraWidth)];
+    return CellGrid.serialize([merged])[0];
+  }
+
+  private static getLayout(): Record<ScreenRegion, RegionLayout> {
+    const { rows } = this.size;
+
+    // Printed without the slideshow screen there is no header or toast, and the last row is left for the prompt
+    const status = { top: rows, height: 1 };
+    const prompt = { top: rows, height: this.active ? 1 : 0 }; // The ":" command line, drawn over the status line
+    const toast = this.active ? { top: rows - 1, height: 1 } : { top: rows, height: 0 };
+    const header = { top: 1, height: this.active ? this.HEADER_HEIGHT : 0 };
+    const bodyTop = header.top + header.height;
+
+    // A caption in the status line takes no rows of its own
+    const captionLines = this.captionPosition === "statusline" ? 0 : this.content.get("caption")?.length ?? 0;
+    const captionHeight = Math.min(captionLines, Math.max(0, rows - 6));
+
+    let image: RegionLayout;
+    let caption: RegionLayout;
+    switch (this.captionPosition) {
+      case "top":
+        caption = { top: bodyTop, height: captionHeight };
+        image = { top: bodyTop + captionHeight, height: Math.max(0, toast.top - bodyTop - captionHeight) };
+        break;
+      case "overlay":
+        // The image keeps the full height and the caption covers its bottom rows
+        image = { top: bodyTop, height: Math.max(0, toast.top - bodyTop) };
+        caption = { top: toast.top - captionHeight, height: captionHeight };
+        break;
+      default:
+        caption = { top: toast.top - captionHeight, height: captionHeight };
+        image = { top: bodyTop, height: Math.max(0, caption.top - bodyTop) };
+    }
+
+    // The panel floats in the middle of the image, over everything drawn before it
+    const panelHeight = Math.min(this.content.get("panel")?.length ?? 0, image.height);
+    const panel = { top: image.top + Math.floor((image.height - panelHeight) / 2), height: panelHeight };
+
+    return { header, image, caption, panel, toast, status, prompt };
+  }
+
+  // A new terminal size invalidates every row
+  private static updateSize(): void {
+    const size = TerminalUtils.getTerminalSize();
+    if (size.columns !== this.size.columns || size.rows !== this.size.rows) {
+      this.size = size;
+      this.drawnRows.clear();
+      SessionRecorder.resize(size);
+    }
+  }
+}
+
+// One line of an asciicast v2 file after the header: seconds since the start, event type and data
+type CastEvent = [number, string, string];
+
+// Records everything the slideshow screen draws as an asciinema asciicast v2 file
+class SessionRecorder {
+  private static file: Deno.FsFile | null = null;
+  private static startedAt = 0;
+
+  static isRecording(): boolean {
+    return this.file !== null;
+  }
+
+  static start(path: string, size: { columns: number; rows: number }): void {
+    this.file = Deno.openSync(path, { write: true, create: true, truncate: true });
+    this.startedAt = performance.now();
+
+    const env: Record<string, string> = {};
+    for (const name of ["TERM", "SHELL"]) {
+      const value = Deno.env.get(name);
+      if (value) env[name] = value;
+    }
+    this.writeLine({
+      version: 2,
+      width: size.columns,
+      height: size.rows,
+      timestamp: Math.floor(Date.now() / 1000),
+      title: "TTY Slide",
+      env,
+    });
+  }
+
+  static output(data: string): void {
+    this.event("o", data);
+  }
+
+  static resize(size: { columns: number; rows: number }): void {
+    this.event("r", `${size.columns}x${size.rows}`);
+  }
+
+  static stop(): void {
+    if (!this.file) return;
+    this.file.close();
+    this.file = null;
+  }
+
+  private static event(type: string, data: string): void {
+    if (!this.file) return;
+    const elapsed = (performance.now() - this.startedAt) / 1000;
+    this.writeLine([Number(elapsed.toFixed(6)), type, data]);
+  }
+
+  // Lines are written synchronously so the file is complete even when the process exits right after
+  private static writeLine(value: unknown): void {
+    const data = new TextEncoder().encode(JSON.stringify(value) + "\n");
+    let written = 0;
+    while (written < data.length) {
+      written += this.file!.writeSync(data.subarray(written));
+    }
+  }
+}
+
+// Plays an asciicast v2 recording back in the terminal with its original timing
+class SessionPlayer {
+  private static readonly PAUSE_POLL_MS = 50;
+
+  private paused = false;
+  private stopped = false;
+
+  // Loads and checks a recording; throws with a readable message when it is not asciicast v2
+  static async load(path: string): Promise<{ width: number; height: number; events: CastEvent[] }> {
+    const lines = (await Deno.readTextFile(path)).split("\n").filter((line) => line.trim() !== "");
+    const header = lines.length > 0 ? JSON.parse(lines[0]) : null;
+    if (header?.version !== 2) {
+      throw new Error(`${path} is not an asciicast v2 recording`);
+    }
+
+    const events = lines.slice(1).map((line, i) => {
+      const event = JSON.parse(line);
+      if (!Array.isArray(event) || typeof event[0] !== "number" || typeof event[2] !== "string") {
+        throw new Error(`${path}:${i + 2}: malformed event`);
+      }
+      return event as CastEvent;
+    });
+
+    return { width: header.width, height: header.height, events };
+  }
+
+  // SPACE pauses, Q or Ctrl+C stops; the terminal is restored however the recording ended
+  async play(events: CastEvent[], speed: number): Promise<void> {
+    const keyboard = new KeyboardHandler();
+    keyboard.on("space", () => this.paused = !this.paused);
+    keyboard.on("q", () => this.stopped = true);
+    keyboard.on("ctrl+c", () => this.stopped = true);
+
+    let start = performance.now();
+    try {
+      for (const [time, type, data] of events) {
+        // Only output is replayed, the terminal cannot be resized for the recording
+        if (type !== "o") continue;
+
+        while (!this.stopped) {
+          const pausedAt = performance.now();
+          while (this.paused && !this.stopped) {
+            await new Promise((resolve) => setTimeout(resolve, SessionPlayer.PAUSE_POLL_MS));
+          }
+          start += performance.now() - pausedAt;
+
+          const wait = start + (time * 1000) / speed - performance.now();
+          if (wait <= 0) break;
+          await new Promise((resolve) => setTimeout(resolve, Math.min(wait, SessionPlayer.PAUSE_POLL_MS)));
+        }
+        if (this.stopped) break;
+
+        await TerminalUtils.writeAll(data);
+      }
+    } finally {
+      keyboard.destroy();
+      // A recording cut short never left the alternate screen
+      await TerminalUtils.writeAll("\x1b[0m\x1b[?7h\x1b[?25h\x1b[?1049l");
+    }
+  }
+}
+
+// Effects used to change from one slide to the next
+type TransitionKind = "wipe" | "dissolve" | "slide" | "fade";
+
+type RgbColor = [number, number, number];
+
+// A cell colour, keeping the renderer's own SGR parameters so untouched cells are redrawn exactly
+interface CellColor {
+  sgr: string;
+  rgb: RgbColor;
+}
+
+interface CellStyle {
+  foreground: CellColor | null;
+  background: CellColor | null;
+  attributes: number[]; // Bold, dim, italic...
+}
+
+interface Cell {
+  char: string;
+  style: CellStyle;
+}
+
+// Text renderer output as a grid of styled character cells
+class CellGrid {
+  private static readonly BLANK_STYLE: CellStyle = { foreground: null, background: null, attributes: [] };
+  private static readonly SGR = new RegExp("^\x1b\\[([0-9;]*)m");
+
+  // xterm's default colours for the 16 basic SGR colours
+  static readonly BASIC_COLORS: RgbColor[] = [
+    [0, 0, 0], [205, 0, 0], [0, 205, 0], [205, 205, 0],
+    [0, 0, 238], [205, 0, 205], [0, 205, 205], [229, 229, 229],
+    [127, 127, 127], [255, 0, 0], [0, 255, 0], [255, 255, 0],
+    [92, 92, 255], [255, 0, 255], [0, 255, 255], [255, 255, 255],
+  ];
+
+  // Returns null when the lines contain more than text and colours, e.g. sixel or kitty graphics
+  static parse(lines: string[], rows: number, columns: number): Cell[][] | null {
+    const grid: Cell[][] = [];
+
+    for (let y = 0; y < rows; y++) {
+      const line = lines[y] ?? "";
+      const row: Cell[] = [];
+      let style = this.BLANK_STYLE;
+      let i = 0;
+
+      while (i < line.length && row.length < columns) {
+        if (line[i] === "\x1b") {
+          const match = line.slice(i).match(this.SGR);
+          if (!match) return null;
+          style = this.applySgr(style, match[1]);
+          i += match[0].length;
+          continue;
+        }
+
+        const char = String.fromCodePoint(line.codePointAt(i)!);
+        row.push({ char, style });
+        i += char.length;
+      }
+
+      while (row.length < columns) {
+        row.push({ char: " ", style: this.BLANK_STYLE });
+      }
+      grid.push(row);
+    }
+
+    return grid;
+  }
+
+  static serialize(grid: Cell[][]): string[] {
+    return grid.map((row) => {
+      let line = "";
+      let current = "";
+
+      for (const cell of row) {
+        const sgr = this.styleToSgr(cell.style);
+        if (sgr !== current) {
+          line += `\x1b[0${sgr}m`;
+          current = sgr;
+        }
+        line += cell.char;
+      }
+
+      return current ? line + "\x1b[0m" : line;
+    });
+  }
+
+  // Removes the blank rows and columns around the content, such as the margins used to center it
+  static crop(grid: Cell[][]): Cell[][] {
+    const isBlank = (cell: Cell) => cell.char === " " && !cell.style.background;
+    const filled = grid.map((row) => row.some((cell) => !isBlank(cell)));
+    const top = filled.indexOf(true);
+    if (top === -1) return [];
+
+    const rows = grid.slice(top, filled.lastIndexOf(true) + 1);
+    const contentRows = rows.filter((row) => row.some((cell) => !isBlank(cell)));
+    const left = Math.min(...contentRows.map((row) => row.findIndex((cell) => !isBlank(cell))));
+    const right = Math.max(...contentRows.map((row) => row.findLastIndex((cell) => !isBlank(cell)) + 1));
+    return rows.map((row) => row.slice(left, right));
+  }
+
+  // Darkens a cell towards black; cells in the terminal's default colour dim, then disappear
+  static scale(cell: Cell, brightness: number, depth: ColorDepth): Cell {
+    const { foreground, background, attributes } = cell.style;
+    const scaleColor = (color: CellColor | null, isBackground: boolean): CellColor | null => {
+      if (!color) return null;
+      const rgb = color.rgb.map((value) => Math.round(value * brightness)) as RgbColor;
+      const escape = TerminalUtils.colorEscape(rgb[0], rgb[1], rgb[2], isBackground, depth);
+      return { sgr: escape.slice(2, -1), rgb };
+    };
+
+    if (!foreground && brightness < 0.2) {
+      return { char: " ", style: { ...this.BLANK_STYLE, background: scaleColor(background, true) } };
+    }
+
+    return {
+      char: cell.char,
+      style: {
+        foreground: scaleColor(foreground, false),
+        background: scaleColor(background, true),
+        attributes: !foreground && brightness < 0.6 ? [...attributes, 2] : attributes,
+      },
+    };
+  }
+
+  static styleToSgr(style: CellStyle): string {
+    let sgr = style.attributes.map((attribute) => `;${attribute}`).join("");
+    if (style.foreground) sgr += `;${style.foreground.sgr}`;
+    if (style.background) sgr += `;${style.background.sgr}`;
+    return sgr;
+  }
+
+  private static applySgr(style: CellStyle, parameters: string): CellStyle {
+    const codes = parameters === "" ? [0] : parameters.split(";").map((code) => parseInt(code) || 0);
+    let { foreground, background, attributes } = style;
+
+    for (let i = 0; i < codes.length; i++) {
+      const code = codes[i];
+
+      if (code === 0) {
+        foreground = null;
+        background = null;
+        attributes = [];
+      } else if (code >= 1 && code <= 9) {
+        attributes = [...attributes.filter((attribute) => attribute !== code), code];
+      } else if (code >= 21 && code <= 29) {
+        // 22 turns off both bold and dim, the others turn off their matching attribute
+        const off = code === 22 ? [1, 2] : [code - 20];
+        attributes = attributes.filter((attribute) => !off.includes(attribute));
+      } else if ((code >= 30 && code <= 37) || (code >= 90 && code <= 97)) {
+        foreground = { sgr: `${code}`, rgb: this.BASIC_COLORS[code >= 90 ? code - 82 : code - 30] };
+      } else if ((code >= 40 && code <= 47) || (code >= 100 && code <= 107)) {
+        background = { sgr: `${code}`, rgb: this.BASIC_COLORS[code >= 100 ? code - 92 : code - 40] };
+      } else if (code === 38 || code === 48) {
+        // Extended colours: 38;5;N for the 256 colour palette, 38;2;R;G;B for truecolor
+        let color: CellColor | null = null;
+        if (codes[i + 1] === 5) {
+          color = { sgr: codes.slice(i, i + 3).join(";"), rgb: this.paletteToRgb(codes[i + 2] ?? 0) };
+          i += 2;
+        } else if (codes[i + 1] === 2) {
+          const rgb = codes.slice(i + 2, i + 5) as RgbColor;
+          color = { sgr: codes.slice(i, i + 5).join(";"), rgb };
+          i += 4;
+        }
+        if (code === 38) foreground = color;
+        else background = color;
+      } else if (code === 39) {
+        foreground = null;
+      } else if (code === 49) {
+        background = null;
+      }
+    }
+
+    return { foreground, background, attributes };
+  }
+
+  private static paletteToRgb(index: number): RgbColor {
+    if (index < 16) return this.BASIC_COLORS[index];
+    if (index >= 232) {
+      const gray = 8 + (index - 232) * 10;
+      return [gray, gray, gray];
+    }
+    const levels = [0, 95, 135, 175, 215, 255];
+    const cube = index - 16;
+    return [levels[Math.floor(cube / 36)], levels[Math.floor(cube / 6) % 6], levels[cube % 6]];
+  }
+}
+
+// Animates the image region from the outgoing slide to the incoming one
+class SlideTransition {
+  static readonly KINDS: TransitionKind[] = ["wipe", "dissolve", "slide", "fade"];
+  private static readonly FRAME_INTERVAL_MS = 33; // About 30 frames per second
+
+  // Resolves the configured transition for one slide change; "random" picks a new effect every time
+  static pick(setting: TransitionKind | "random" | "none"): TransitionKind | null {
+    if (setting === "none") return null;
+    if (setting === "random") {
+      return this.KINDS[Math.floor(Math.random() * this.KINDS.length)];
+    }
+    return setting;
+  }
+
+  static async play(
+    kind: TransitionKind,
+    from: string[],
+    to: string[],
+    durationMs: number,
+    depth: ColorDepth,
+  ): Promise<void> {
+    const rows = Math.max(from.length, to.length);
+    const columns = TerminalUtils.getTerminalWidth();
+    const outgoing = CellGrid.parse(from, rows, columns);
+    const incoming = CellGrid.parse(to, rows, columns);
+
+    // Graphics protocol output is not made of cells, so those slides keep the hard cut
+    if (!outgoing || !incoming) {
+      Logger.debug(`Skipping ${kind} transition: slide is not text`);
+      return;
+    }
+
+    const order = kind === "dissolve" ? this.shuffledOrder(rows * columns) : [];
+    const start = Date.now();
+
+    for (let elapsed = 0; elapsed < durationMs; elapsed = Date.now() - start) {
+      const progress = elapsed / durationMs;
+      const frame = outgoing.map((row, y) =>
+        row.map((_, x) => this.pickCell(kind, outgoing, incoming, x, y, progress, order, depth))
+      );
+
+      ScreenCompositor.set("image", CellGrid.serialize(frame));
+      await ScreenCompositor.flush();
+      await new Promise((resolve) => setTimeout(resolve, this.FRAME_INTERVAL_MS));
+    }
+  }
+
+  private static pickCell(
+    kind: TransitionKind,
+    outgoing: Cell[][],
+    incoming: Cell[][],
+    x: number,
+    y: number,
+    progress: number,
+    order: number[],
+    depth: ColorDepth,
+  ): Cell {
+    const columns = outgoing[y].length;
+
+    switch (kind) {
+      case "wipe":
+        return x < progress * columns ? incoming[y][x] : outgoing[y][x];
+      case "dissolve":
+        return order[y * columns + x] < progress * order.length ? incoming[y][x] : outgoing[y][x];
+      case "slide": {
+        // The incoming slide pushes the outgoing one off to the left
+        const source = x + Math.round(progress * columns);
+        return source < columns ? outgoing[y][source] : incoming[y][source - columns];
+      }
+      case "fade":
+        // Fade the outgoing slide to black, then the incoming one up from black
+        return progress < 0.5
+          ? CellGrid.scale(outgoing[y][x], 1 - progress * 2, depth)
+          : CellGrid.scale(incoming[y][x], progress * 2 - 1, depth);
+    }
+  }
+
+  // Rank of every cell in a random reveal order
+  private static shuffledOrder(count: number): number[] {
+    const order = Array.from({ length: count }, (_, i) => i);
+    for (let i = count - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [order[i], order[j]] = [order[j], order[i]];
+    }
+    return order;
+  }
+}
+
+// File formats a rendered slide can be exported to
+type ExportFormat = "ans" | "txt" | "html" | "svg";
+
+// Writes the text rendering of a slide as ANSI art, plain text, HTML or SVG
+class AsciiExporter {
+  static readonly FORMATS: ExportFormat[] = ["ans", "txt", "html", "svg"];
+  // What the S key writes when --export-ascii does not choose
+  static readonly SAVE_KEY_FORMATS: ExportFormat[] = ["ans"];
+
+  private static readonly DEFAULT_FOREGROUND = "#e5e5e5";
+  private static readonly DEFAULT_BACKGROUND = "#000000";
+  private static readonly FONT_FAMILY = `Menlo, Consolas, "DejaVu Sans Mono", monospace`;
+  private static readonly SVG_CELL_WIDTH = 8.4; // 0.6em at 14px
+  private static readonly SVG_LINE_HEIGHT = 17;
+
+  // Exports `lines` when they are text, otherwise a fresh text rendering of `buffer`; returns the written paths
+  static async export(
+    basePath: string,
+    buffer: Uint8Array,
+    lines: string[] | null,
+    config: Config,
+    formats: ExportFormat[] = config.exportFormats,
+  ): Promise<string[]> {
+    const grid = (lines && this.toGrid(lines)) ?? await this.renderGrid(buffer, config);
+    const title = basename(basePath);
+    const written: string[] = [];
+
+    for (const format of formats) {
+      const path = `${basePath}.${format}`;
+      let content: string;
+      switch (format) {
+        case "ans":
+          content = CellGrid.serialize(grid).join("\n") + "\n";
+          break;
+        case "txt":
+          content = grid.map((row) => row.map((cell) => cell.char).join("").trimEnd()).join("\n") + "\n";
+          break;
+        case "html":
+          content = this.toHtml(grid, title);
+          break;
+        case "svg":
+          content = this.toSvg(grid);
+          break;
+      }
+
+      await Deno.writeTextFile(path, content);
+      Logger.success(`Exported rendering: ${path}`);
+      written.push(path);
+    }
+
+    return written;
+  }
+
+  // Renders with the active renderer, or the built-in one when the active renderer draws graphics
+  private static async renderGrid(buffer: Uint8Array, config: Config): Promise<Cell[][]> {
+    const area = ScreenCompositor.getImageArea();
+    const active = RendererRegistry.getRenderer(config.renderer) ?? RendererRegistry.getFallback();
+
+    for (const renderer of [active, RendererRegistry.getFallback()]) {
+      const normalized = await FormatConverter.normalize(buffer, renderer.getSupportedFormats());
+      const grid = this.toGrid((await renderer.render(normalized, area, config)).split("\n"));
+      if (grid) return grid;
+    }
+    throw new RenderError("Export failed: the built-in renderer did not produce text");
+  }
+
+  // Parses terminal lines and drops the margins used to center them on screen
+  private static toGrid(lines: string[]): Cell[][] | null {
+    const width = Math.max(0, ...lines.map((line) => stripColor(line).length));
+    const grid = CellGrid.parse(lines, lines.length, width);
+    return grid && CellGrid.crop(grid);
+  }
+
+  private static toHtml(grid: Cell[][], title: string): string {
+    const rows = grid.map((row) =>
+      this.runs(row).map(({ style, text }) => {
+        const css = this.toCss(style);
+        const escaped = this.escapeXml(text);
+        return css ? `<span style="${css}">${escaped}</span>` : escaped;
+      }).join("")
+    );
+
+    return [
+      "<!DOCTYPE html>",
+      "<html>",
+      "<head>",
+      '<meta charset="utf-8">',
+      `<title>${this.escapeXml(title)}</title>`,
+      "<style>",
+      `body { background: ${this.DEFAULT_BACKGROUND}; margin: 0; }`,
+      `pre { color: ${this.DEFAULT_FOREGROUND}; font: 14px/1.2 ${this.FONT_FAMILY}; margin: 1em; }`,
+      "</style>",
+      "</head>",
+      "<body>",
+      `<pre>${rows.join("\n")}</pre>`,
+      "</body>",
+      "</html>",
+      "",
+    ].join("\n");
+  }
+
+  private static toSvg(grid: Cell[][]): string {
+    const cellWidth = this.SVG_CELL_WIDTH;
+    const lineHeight = this.SVG_LINE_HEIGHT;
+    const width = Math.ceil((grid[0]?.length ?? 0) * cellWidth);
+    const height = grid.length * lineHeight;
+    const backgrounds: string[] = [];
+    const texts: string[] = [];
+
+    grid.forEach((row, y) => {
+      let x = 0;
+      for (const { style, text, cells } of this.runs(row)) {
+        const { foreground, background } = this.resolveColors(style);
+        const left = (x * cellWidth).toFixed(1);
+        const runWidth = (cells * cellWidth).toFixed(1);
+
+        if (background) {
+          backgrounds.push(
+            `<rect x="${left}" y="${y * lineHeight}" width="${runWidth}" height="${lineHeight}" fill="${background}"/>`,
+          );
+        }
+        if (text.trim() !== "") {
+          const attributes = [`x="${left}"`, `y="${y * lineHeight + 13}"`, `textLength="${runWidth}"`];
+          if (foreground) attributes.push(`fill="${foreground}"`);
+          if (style.attributes.includes(1)) attributes.push('font-weight="bold"');
+          if (style.attributes.includes(2)) attributes.push('opacity="0.5"');
+          texts.push(`<text ${attributes.join(" ")}>${this.escapeXml(text)}</text>`);
+        }
+        x += cells;
+      }
+    });
+
+    return [
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+      `<rect width="100%" height="100%" fill="${this.DEFAULT_BACKGROUND}"/>`,
+      ...backgrounds,
+      `<g font-family='${this.FONT_FAMILY}' font-size="14" fill="${this.DEFAULT_FOREGROUND}" xml:space="preserve">`,
+      ...texts,
+      "</g>",
+      "</svg>",
+      "",
+    ].join("\n");
+  }
+
+  // Groups neighbouring cells that share a style; `cells` counts cells, not UTF-16 code units
+  private static runs(row: Cell[]): { style: CellStyle; text: string; cells: number }[] {
+    const runs: { style: CellStyle; text: string; cells: number; key: string }[] = [];
+    for (const cell of row) {
+      const key = CellGrid.styleToSgr(cell.style);
+      const last = runs[runs.length - 1];
+      if (last && last.key === key) {
+        last.text += cell.char;
+        last.cells++;
+      } else {
+        runs.push({ style: cell.style, text: cell.char, cells: 1, key });
+      }
+    }
+    return runs;
+  }
+
+  private static toCss(style: CellStyle): string {
+    const { foreground, background } = this.resolveColors(style);
+    const css: string[] = [];
+    if (foreground) css.push(`color:${foreground}`);
+    if (background) css.push(`background-color:${background}`);
+    if (style.attributes.includes(1)) css.push("font-weight:bold");
+    if (style.attributes.includes(2)) css.push("opacity:0.5");
+    if (style.attributes.includes(3)) css.push("font-style:italic");
+    if (style.attributes.includes(4)) css.push("text-decoration:underline");
+    return css.join(";");
+  }
+
+  // Colours as CSS hex values, with reverse video applied; null means the page default
+  private static resolveColors(style: CellStyle): { foreground: string | null; background: string | null } {
+    const hex = (color: CellColor | null) =>
+      color ? "#" + color.rgb.map((value) => value.toString(16).padStart(2, "0")).join("") : null;
+    const foreground = hex(style.foreground);
+    const background = hex(style.background);
+
+    if (style.attributes.includes(7)) {
+      return {
+        foreground: background ?? this.DEFAULT_BACKGROUND,
+        background: foreground ?? this.DEFAULT_FOREGROUND,
+      };
+    }
+    return { foreground, background };
+  }
+
+  private static escapeXml(text: string): string {
+    return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+  }
+}
+
+// Things the keyboard does in the slideshow
+type KeyAction =
+  | "pause"
+  | "next"
+  | "previous"
+  | "zoom-in"
+  | "zoom-out"
+  | "pan-left"
+  | "pan-down"
+  | "pan-up"
+  | "pan-right"
+  | "grid"
+  | "toggle-colors"
+  | "toggle-fill"
+  | "toggle-caption"
+  | "toggle-invert"
+  | "favorite"
+  | "rate"
+  | "block"
+  | "interval-down"
+  | "interval-up"
+  | "save"
+  | "cancel"
+  | "help"
+  | "command"
+  | "quit";
+
+// The keys of every action, by the names KeyboardHandler gives them
+class Keymap {
+  private static readonly DEFAULT_BINDINGS: Record<KeyAction, string[]> = {
+    pause: ["space"],
+    next: ["n", "arrow-right"],
+    previous: ["p", "arrow-left"],
+    "zoom-in": ["+", "="],
+    "zoom-out": ["-"],
+    "pan-left": ["h", "shift+arrow-left"],
+    "pan-down": ["j", "arrow-down", "shift+arrow-down"],
+    "pan-up": ["k", "arrow-up", "shift+arrow-up"],
+    "pan-right": ["l", "shift+arrow-right"],
+    grid: ["g"],
+    "toggle-colors": ["c"],
+    "toggle-fill": ["f"],
+    "toggle-caption": ["i"],
+    "toggle-invert": ["r"],
+    favorite: ["F"],
+    rate: ["1", "2", "3", "4", "5"], // The nth key gives n stars
+    block: ["x"],
+    "interval-down": ["["],
+    "interval-up": ["]"],
+    save: ["s"],
+    cancel: ["escape"],
+    help: ["?"],
+    command: [":"],
+    quit: ["q"],
+  };
+
+  // Help panel text, in panel order
+  private static readonly DESCRIPTIONS: Record<KeyAction, string> = {
+    pause: "Pause/Resume",
+    next: "Next slide",
+    previous: "Previous slide",
+    "zoom-in": "Zoom in",
+    "zoom-out": "Zoom out",
+    "pan-left": "Pan left",
+    "pan-down": "Pan down",
+    "pan-up": "Pan up",
+    "pan-right": "Pan right",
+    grid: "Contact sheet",
+    "toggle-colors": "Colors on/off",
+    "toggle-fill": "Background fill on/off",
+    "toggle-caption": "Caption on/off",
+    "toggle-invert": "Invert brightness",
+    favorite: "Favourite on/off",
+    rate: "Rate 1-5 stars (again to clear)",
+    block: "Block image, artist or tag",
+    "interval-down": "Shorter interval",
+    "interval-up": "Longer interval",
+    save: "Save slide",
+    cancel: "Cancel, close help",
+    help: "Show this help",
+    command: "Command line (:source, :tags, ...)",
+    quit: "Quit",
+  };
+
+  // Header entries: one key of each action, or the first two keys of a single action
+  private static readonly HEADER: [KeyAction[], string][] = [
+    [["pause"], "Pause/Resume"],
+    [["previous"], "Back"],
+    [["next"], "Skip"],
+    [["zoom-in", "zoom-out"], "Zoom"],
+    [["grid"], "Grid"],
+    [["save"], "Save"],
+    [["help"], "Help"],
+    [["quit"], "Quit"],
+  ];
+
+  // How keys are shown in the header and help panel; other names are shown in upper case
+  private static readonly KEY_LABELS: Record<string, string> = {
+    space: "SPACE",
+    escape: "ESC",
+    "page-up": "PGUP",
+    "page-down": "PGDN",
+    "arrow-left": "←",
+    "arrow-right": "→",
+    "arrow-up": "↑",
+    "arrow-down": "↓",
+  };
+
+  // Vim's names for keys, written <Name> in keymap files with optional C-, A- (or M-) and S- modifiers
+  private static readonly VIM_KEYS: Record<string, string> = {
+    space: "space",
+    esc: "escape",
+    cr: "enter",
+    enter: "enter",
+    return: "enter",
+    bs: "backspace",
+    tab: "tab",
+    left: "arrow-left",
+    right: "arrow-right",
+    up: "arrow-up",
+    down: "arrow-down",
+    home: "home",
+    end: "end",
+    pageup: "page-up",
+    pagedown: "page-down",
+    insert: "insert",
+    del: "delete",
+  };
+
+  private static bindings: Record<KeyAction, string[]> = Keymap.DEFAULT_BINDINGS;
+
+  // $XDG_CONFIG_HOME/tty-slide/keymap.json, usually ~/.config/tty-slide/keymap.json
+  static defaultPath(): string | null {
+    const configHome = Deno.env.get("XDG_CONFIG_HOME") ||
+      (Deno.env.get("HOME") ? `${Deno.env.get("HOME")}/.config` : null);
+    return configHome ? `${configHome}/tty-slide/keymap.json` : null;
+  }
+
+  // Reads a JSON object of action names to a key or list of keys; the default file is optional.
+  // Keys a file binds are taken off the actions it leaves out, so rebinding a key never runs two actions
+  static async load(path: string | null): Promise<void> {
+    const file = path ?? this.defaultPath();
+    if (!file) return;
+
+    let text: string;
+    try {
+      text = await Deno.readTextFile(file);
+    } catch (error) {
+      if (path === null && error instanceof Deno.errors.NotFound) return;
+      throw error;
+    }
+
+    const custom = JSON.parse(text);
+    if (typeof custom !== "object" || custom === null || Array.isArray(custom)) {
+      throw new Error("a keymap file must contain a JSON object of actions and keys");
+    }
+
+    const bound = new Map<KeyAction, string[]>();
+    for (const [action, keys] of Object.entries(custom)) {
+      if (!(action in this.DEFAULT_BINDINGS)) {
+        throw new Error(`unknown action "${action}" (actions: ${Object.keys(this.DEFAULT_BINDINGS).join(", ")})`);
+      }
+      const names = typeof keys === "string" ? [keys] : keys;
+      if (!Array.isArray(names) || names.some((name) => typeof name !== "string")) {
+        throw new Error(`the keys of "${action}" must be a string or a list of strings`);
+      }
+      bound.set(action as KeyAction, names.map((name) => this.parseKey(name)));
+    }
+
+    const taken = new Set([...bound.values()].flat());
+    this.bindings = Object.fromEntries(
+      (Object.keys(this.DEFAULT_BINDINGS) as KeyAction[]).map((action) => [
+        action,
+        bound.get(action) ?? this.DEFAULT_BINDINGS[action].filter((key) => !taken.has(key)),
+      ]),
+    ) as Record<KeyAction, string[]>;
+    Logger.info(`Loaded keymap from ${file}`);
+  }
+
+  static keysFor(action: KeyAction): string[] {
+    return this.bindings[action];
+  }
+
+  static describeKeys(action: KeyAction, limit = Infinity): string {
+    return this.keysFor(action).slice(0, limit).map((key) => this.describeKey(key)).join("/");
+  }
+
+  // "SPACE - Pause/Resume | P/← - Back | ..." for the bindings in use
+  static headerLine(): string {
+    return this.HEADER
+      .map(([actions, label]) => {
+        const keys = actions.length > 1
+          ? actions.map((action) => this.describeKeys(action, 1)).filter(Boolean).join("/")
+          : this.describeKeys(actions[0], 2);
+        return keys ? `${Theme.paint("key", keys)} - ${label}` : "";
+      })
+      .filter(Boolean)
+      .join(" | ");
+  }
+
+  // Boxed list of every binding, centered on the terminal
+  static helpPanel(): string[] {
+    const rows: [string, string][] = (Object.keys(this.DESCRIPTIONS) as KeyAction[])
+      .filter((action) => this.keysFor(action).length > 0)
+      .map((action) => [this.keysFor(action).map((key) => this.describeKey(key)).join(", "), this.DESCRIPTIONS[action]]);
+    rows.push(["1-99", "Open a thumbnail of the contact sheet"]);
+    return TerminalUtils.panel("Keyboard Controls", rows);
+  }
+
+  // Accepts KeyboardHandler names ("q", "page-down", "ctrl+arrow-left") and vim notation ("<Space>", "<C-Left>")
+  private static parseKey(name: string): string {
+    const vim = name.match(/^<((?:[cams]-)*)(.+)>$/i);
+    const [modifiers, base] = vim
+      ? [vim[1].toLowerCase().split("-"), this.VIM_KEYS[vim[2].toLowerCase()] ?? vim[2].toLowerCase()]
+      : [name.match(/^((?:ctrl\+|alt\+|shift\+)*)/)![1].split("+"), name.replace(/^(?:ctrl\+|alt\+|shift\+)*/, "")];
+
+    const isKey = InputDecoder.NAMED_KEYS.includes(base) || (base.length === 1 && base > " ");
+    if (!isKey) {
+      throw new Error(`unknown key "${name}"`);
+    }
+
+    // A capital letter, or a shifted one, is a key of its own: "F" and "<S-f>" are Shift+F
+    const shift = modifiers.includes("s") || modifiers.includes("shift");
+    const capital = /^[a-z]$/i.test(base) && (shift || base !== base.toLowerCase());
+    return InputDecoder.keyName(capital ? base.toUpperCase() : base.toLowerCase(), {
+      ctrl: modifiers.includes("c") || modifiers.includes("ctrl"),
+      alt: modifiers.includes("a") || modifiers.includes("m") || modifiers.includes("alt"),
+      shift,
+    });
+  }
+
+  // "ctrl+arrow-left" as "Ctrl+←"
+  private static describeKey(key: string): string {
+    const base = key.replace(/^(?:ctrl\+|alt\+|shift\+)*/, "");
+    const modifiers = key.slice(0, key.length - base.length).split("+").filter(Boolean);
+    const label = this.KEY_LABELS[base] ?? base.toUpperCase();
+    if (/^[A-Z]$/.test(base)) {
+      modifiers.push("shift"); // Lower case letters are shown in capitals, so capitals need the Shift
+    }
+    return [...modifiers.map((modifier) => modifier[0].toUpperCase() + modifier.slice(1)), label].join("+");
+  }
+}
+
+// A key press; `key` is the name listeners use, with modifiers: "q", "space", "page-down", "ctrl+arrow-left"
+interface KeyInput {
+  type: "key";
+  key: string;
+  name: string; // Without modifiers
+  ctrl: boolean;
+  alt: boolean;
+  shift: boolean;
+}
+
+// An SGR mouse report, with 1-based cell coordinates
+interface MouseInput {
+  type: "mouse";
+  action: "press" | "release" | "drag" | "wheel-up" | "wheel-down";
+  button: number; // 0 left, 1 middle, 2 right
+  column: number;
+  row: number;
+}
+
+// Text pasted while bracketed paste mode is on, delivered in one piece instead of as key presses
+interface PasteInput {
+  type: "paste";
+  text: string;
+}
+
+type TerminalInput = KeyInput | MouseInput | PasteInput;
+
+// Turns the bytes read from a raw terminal into key, mouse and paste events. Sequences can arrive split
+// across reads or many at once; an incomplete one is kept until the rest arrives
+class InputDecoder {
+  // Names of the keys that are not a single character
+  static readonly NAMED_KEYS = [
+    "space", "enter", "tab", "escape", "backspace", "insert", "delete", "home", "end", "page-up", "page-down",
+    "arrow-up", "arrow-down", "arrow-right", "arrow-left",
+    "f1", "f2", "f3", "f4", "f5", "f6", "f7", "f8", "f9", "f10", "f11", "f12",
+  ];
+
+  // CSI final bytes and SS3 characters of cursor and function keys
+  private static readonly FINAL_KEYS: Record<string, string> = {
+    A: "arrow-up",
+    B: "arrow-down",
+    C: "arrow-right",
+    D: "arrow-left",
+    H: "home",
+    F: "end",
+    P: "f1",
+    Q: "f2",
+    R: "f3",
+    S: "f4",
+  };
+
+  // Numbers of CSI n ~ sequences
+  private static readonly TILDE_KEYS: Record<number, string> = {
+    1: "home",
+    2: "insert",
+    3: "delete",
+    4: "end",
+    5: "page-up",
+    6: "page-down",
+    7: "home",
+    8: "end",
+    11: "f1",
+    12: "f2",
+    13: "f3",
+    14: "f4",
+    15: "f5",
+    17: "f6",
+    18: "f7",
+    19: "f8",
+    20: "f9",
+    21: "f10",
+    23: "f11",
+    24: "f12",
+  };
+
+  private static readonly PASTE_START = "\x1b[200~";
+  private static readonly PASTE_END = "\x1b[201~";
+
+  // A CSI sequence: parameter and intermediate bytes, then one final byte; and one still waiting for its final byte
+  private static readonly CSI = new RegExp("^\x1b\\[([\x30-\x3f]*)([\x20-\x2f]*)([\x40-\x7e])");
+  private static readonly PARTIAL_CSI = new RegExp("^\x1b\\[[\x20-\x3f]*$");
+
+  private textDecoder = new TextDecoder();
+  private pending = "";
+
+  feed(bytes: Uint8Array): TerminalInput[] {
+    // Streaming decode keeps a UTF-8 character split across reads together
+    this.pending += this.textDecoder.decode(bytes, { stream: true });
+    return this.decode(false);
+  }
+
+  // True when the input ends in an unfinished escape sequence, which may really be the escape key.
+  // Pastes are waited for however long they take
+  hasPendingEscape(): boolean {
+    return this.pending.startsWith("\x1b") && !this.pending.startsWith(InputDecoder.PASTE_START);
+  }
+
+  // Gives up waiting for the rest of a sequence: a lone ESC was the escape key
+  flush(): TerminalInput[] {
+    return this.decode(true);
+  }
+
+  private decode(final: boolean): TerminalInput[] {
+    const events: TerminalInput[] = [];
+
+    while (this.pending.length > 0) {
+      const result = this.pending.startsWith("\x1b") ? this.decodeEscape(final) : this.decodeCharacter(this.pending);
+      if (!result) break; // Wait for the rest of the sequence
+
+      this.pending = this.pending.slice(result.length);
+      if (result.event) events.push(result.event);
+    }
+
+    if (final) this.pending = "";
+    return events;
+  }
+
+  private decodeCharacter(text: string): { length: number; event: KeyInput } {
+    const char = String.fromCodePoint(text.codePointAt(0)!);
+    const code = char.codePointAt(0)!;
+
+    switch (code) {
+      case 0x0d:
+      case 0x0a:
+        return { length: 1, event: this.key("enter") };
+      case 0x09:
+        return { length: 1, event: this.key("tab") };
+      case 0x08:
+      case 0x7f:
+        return { length: 1, event: this.key("backspace") };
+      case 0x20:
+        return { length: 1, event: this.key("space") };
+      case 0x00:
+        return { length: 1, event: this.key("space", { ctrl: true }) };
+    }
+
+    // Ctrl+A to Ctrl+Z arrive as bytes 1 to 26
+    if (code < 0x20) {
+      return { length: 1, event: this.key(String.fromCharCode(code + 96), { ctrl: true }) };
+    }
+
+    // Letters are named in lower case whatever the shift state, so bindings work with caps lock on
+    const lower = char.toLowerCase();
+    return { length: char.length, event: this.key(lower, { shift: lower !== char }) };
+  }
+
+  private decodeEscape(final: boolean): { length: number; event: TerminalInput | null } | null {
+    const text = this.pending;
+
+    if (text.length === 1) {
+      return final ? { length: 1, event: this.key("escape") } : null;
+    }
+
+    if (text[1] === "[") return this.decodeCsi(final);
+
+    if (text[1] === "O") {
+      // SS3: F1-F4 and cursor keys in application mode
+      if (text.length < 3) return final ? { length: 2, event: this.key("o", { alt: true, shift: true }) } : null;
+      const name = InputDecoder.FINAL_KEYS[text[2]];
+      return { length: 3, event: name ? this.key(name) : null };
+    }
+
+    if (text[1] === "\x1b") {
+      return { length: 1, event: this.key("escape") };
+    }
+
+    // ESC followed by a key is that key with Alt held
+    const { length, event } = this.decodeCharacter(text.slice(1));
+    return { length: 1 + length, event: this.key(event.name, { ...event, alt: true }) };
+  }
+
+  private decodeCsi(final: boolean): { length: number; event: TerminalInput | null } | null {
+    const text = this.pending;
+
+    if (text.startsWith(InputDecoder.PASTE_START)) {
+      const end = text.indexOf(InputDecoder.PASTE_END);
+      if (end === -1) {
+        if (!final) return null;
+        return { length: text.length, event: { type: "paste", text: text.slice(InputDecoder.PASTE_START.length) } };
+      }
+      return {
+        length: end + InputDecoder.PASTE_END.length,
+        event: { type: "paste", text: text.slice(InputDecoder.PASTE_START.length, end) },
+      };
+    }
+
+    const match = text.match(InputDecoder.CSI);
+    if (!match) {
+      if (!final && InputDecoder.PARTIAL_CSI.test(text)) return null;
+      return { length: 2, event: this.key("[", { alt: true }) };
+    }
+
+    const [sequence, parameters, , finalByte] = match;
+
+    if (parameters.startsWith("<") && (finalByte === "M" || finalByte === "m")) {
+      return { length: sequence.length, event: this.mouse(parameters.slice(1), finalByte === "m") };
+    }
+
+    const numbers = parameters.split(";").map((value) => parseInt(value) || 0);
+    const modifiers = this.modifiers(numbers[1] ?? 1);
+
+    if (finalByte === "~") {
+      const name = InputDecoder.TILDE_KEYS[numbers[0]];
+      return { length: sequence.length, event: name ? this.key(name, modifiers) : null };
+    }
+    if (finalByte === "Z") {
+      return { length: sequence.length, event: this.key("tab", { shift: true }) };
+    }
+
+    const name = InputDecoder.FINAL_KEYS[finalByte];
+    return { length: sequence.length, event: name ? this.key(name, modifiers) : null };
+  }
+
+  // "b;x;y" of ESC [ < b ; x ; y M: the low bits are the button, 32 marks motion, 64 the wheel
+  private mouse(parameters: string, release: boolean): MouseInput | null {
+    const [code, column, row] = parameters.split(";").map((value) => parseInt(value));
+    if (isNaN(code) || isNaN(column) || isNaN(row)) return null;
+
+    const button = code & 3;
+    let action: MouseInput["action"] = release ? "release" : code & 32 ? "drag" : "press";
+    if (code & 64) {
+      action = button === 0 ? "wheel-up" : "wheel-down";
+    }
+    return { type: "mouse", action, button, column, row };
+  }
+
+  // xterm sends 1 + a bit mask: 1 Shift, 2 Alt, 4 Ctrl
+  private modifiers(value: number): { ctrl: boolean; alt: boolean; shift: boolean } {
+    const mask = Math.max(0, value - 1);
+    return { shift: (mask & 1) !== 0, alt: (mask & 2) !== 0, ctrl: (mask & 4) !== 0 };
+  }
+
+  // Listener name of a key: modifiers in a fixed order, then the key
+  static keyName(name: string, modifiers: { ctrl?: boolean; alt?: boolean; shift?: boolean }): string {
+    // Shift is part of a letter or symbol itself, so only named keys carry it
+    const shift = modifiers.shift && InputDecoder.NAMED_KEYS.includes(name);
+    return (modifiers.ctrl ? "ctrl+" : "") + (modifiers.alt ? "alt+" : "") + (shift ? "shift+" : "") + name;
+  }
+
+  private key(name: string, modifiers: { ctrl?: boolean; alt?: boolean; shift?: boolean } = {}): KeyInput {
+    const { ctrl = false, alt = false, shift = false } = modifiers;
+    return { type: "key", key: InputDecoder.keyName(name, modifiers), name, ctrl, alt, shift };
+  }
+}
+
+// Keyboard input handling
+class KeyboardHandler {
+  private static readonly ESCAPE_TIMEOUT_MS = 50; // A lone ESC with nothing after it for this long is the escape key
+
+  private listeners: Map<string, ((event: KeyInput) => void)[]> = new Map();
+  private mouseListeners: ((event: MouseInput) => void)[] = [];
+  private pasteListeners: ((event: PasteInput) => void)[] = [];
+  private keyCapture: ((event: KeyInput) => void) | null = null;
+  private decoder = new InputDecoder();
+  private escapeTimer: ReturnType<typeof setTimeout> | null = null;
+  private isListening = false;
+
+  // Without `enabled`, or when stdin is not a terminal, no keys are read and the terminal is left alone
+  constructor(enabled = true) {
+    if (enabled && Deno.stdin.isTerminal()) {
+      this.setupRawMode();
+    }
+  }
+
+  private setupRawMode(): void {
+    try {
+      // Enable raw mode to capture individual key presses
+      Deno.stdin.setRaw(true, { cbreak: true });
+      this.isListening = true;
+      this.startListening();
+    } catch {
+      Logger.warn("Failed to enable raw mode for keyboard input");
+    }
+  }
+
+  private async startListening(): Promise<void> {
+    while (this.isListening) {
+      try {
+        const bytes = await TerminalUtils.readInput();
+        if (!bytes) break;
+
+        if (this.escapeTimer !== null) {
+          clearTimeout(this.escapeTimer);
+          this.escapeTimer = null;
+        }
+
+        this.dispatch(this.decoder.feed(bytes));
+
+        if (this.decoder.hasPendingEscape()) {
+          this.escapeTimer = setTimeout(() => {
+            this.escapeTimer = null;
+            this.dispatch(this.decoder.flush());
+          }, KeyboardHandler.ESCAPE_TIMEOUT_MS);
+        }
+      } catch {
+        // Handle read errors gracefully
+        break;
+      }
+    }
+  }
+
+  private dispatch(events: TerminalInput[]): void {
+    for (const event of events) {
+      switch (event.type) {
+        case "key":
+          if (this.keyCapture) {
+            this.keyCapture(event);
+          } else {
+            // A shifted letter runs the callbacks of its capital ("F") when it has any, otherwise the letter's,
+            // so lower case bindings keep working with caps lock on
+            const capital = event.shift && /^[a-z]$/.test(event.key)
+              ? this.listeners.get(event.key.toUpperCase())
+              : undefined;
+            (capital ?? this.listeners.get(event.key))?.forEach((callback) => callback(event));
+          }
+          break;
+        case "mouse":
+          this.mouseListeners.forEach((callback) => callback(event));
+          break;
+        case "paste":
+          this.pasteListeners.forEach((callback) => callback(event));
+          break;
+      }
+    }
+  }
+
+  // A key can have several callbacks, called in the order they were added
+  on(key: string, callback: (event: KeyInput) => void): void {
+    this.listeners.set(key, [...this.listeners.get(key) ?? [], callback]);
+  }
+
+  // Mouse reports only arrive while the slideshow screen has mouse tracking on
+  onMouse(callback: (event: MouseInput) => void): void {
+    this.mouseListeners.push(callback);
+  }
+
+  onPaste(callback: (event: PasteInput) => void): void {
+    this.pasteListeners.push(callback);
+  }
+
+  off(key: string): void {
+    this.listeners.delete(key);
+  }
+
+  // While a capture is set every key goes to it instead of the listeners, e.g. to type into a prompt
+  capture(callback: ((event: KeyInput) => void) | null): void {
+    this.keyCapture = callback;
+  }
+
+  destroy(): void {
+    this.isListening = false;
+    if (this.escapeTimer !== null) {
+      clearTimeout(this.escapeTimer);
+      this.escapeTimer = null;
+    }
+    try {
+      Deno.stdin.setRaw(false);
+    } catch {
+      // Ignore errors when disabling raw mode
+    }
+  }
+}
+
+// A slide that has been displayed, kept so it can be shown again without refetching
+interface HistoryEntry {
+  slideImage: SlideImage;
+  buffer: Uint8Array;
+}
+
+// Bounded history of displayed slides with a cursor for back/forward navigation
+class SlideHistory {
+  private entries: HistoryEntry[] = [];
+  private cursor = -1;
+  private maxSize: number;
+
+  constructor(maxSize: number) {
+    this.maxSize = Math.max(1, maxSize);
+  }
+
+  push(entry: HistoryEntry): void {
+    this.entries.push(entry);
+
+    // Drop the oldest slides once the replay buffer is full
+    while (this.entries.length > this.maxSize) {
+      this.entries.shift();
+    }
+
+    this.cursor = this.entries.length - 1;
+  }
+
+  current(): HistoryEntry | null {
+    return this.entries[this.cursor] ?? null;
+  }
+
+  back(): HistoryEntry | null {
+    if (this.cursor <= 0) return null;
+    this.cursor--;
+    return this.entries[this.cursor];
+  }
+
+  forward(): HistoryEntry | null {
+    if (this.cursor >= this.entries.length - 1) return null;
+    this.cursor++;
+    return this.entries[this.cursor];
+  }
+
+  isAtLatest(): boolean {
+    return this.cursor === this.entries.length - 1;
+  }
+
+  getPosition(): { index: number; total: number } {
+    return { index: this.cursor + 1, total: this.entries.length };
+  }
+
+  // Drops slides that were blocked after they were shown; the cursor ends on the last slide kept before it
+  remove(predicate: (entry: HistoryEntry) => boolean): void {
+    const removedUpToCursor = this.entries.slice(0, this.cursor + 1).filter(predicate).length;
+    this.entries = this.entries.filter((entry) => !predicate(entry));
+    this.cursor = Math.min(this.entries.length - 1, this.cursor - removedUpToCursor);
+  }
+}
+
+// A slide being fetched and downloaded ahead of time
+interface PrefetchSlot {
+  promise: Promise<HistoryEntry | null>;
+  settled: boolean;
+  entry: HistoryEntry | null;
+}
+
+// Background queue that fetches and downloads upcoming slides while the current one is shown
+class PrefetchQueue {
+  private slots: PrefetchSlot[] = [];
+  private config: Config;
+
+  constructor(config: Config) {
+    this.config = config;
+  }
+
+  private static async loadSlide(config: Config): Promise<HistoryEntry | null> {
+    let fetcher: ImageFetcher | null;
+
+    if (config.source === "random") {
+      fetcher = FetcherRegistry.getRandomFetcher();
+      Logger.info(`Randomly selected source: ${fetcher.getSource()}`);
+    } else {
+      fetcher = FetcherRegistry.getFetcher(config.source);
+    }
+
+    if (!fetcher) {
+      Logger.error(`Unknown source: ${config.source}`);
+      return null;
+    }
+
+    try {
+      const slideImage = await fetcher.fetchRandomImage(config);
+      if (!slideImage) {
+        return null;
+      }
+
+      const buffer = await ImageProcessor.downloadImage(
+        slideImage.url,
+        config.timeout,
+      );
+
+      slideImage.exif = ExifReader.parse(buffer) ?? undefined;
+
+      // Sources without metadata (local files) get their dimensions from the image header, as displayed
+      if (!slideImage.width || !slideImage.height) {
+        const dimensions = ImageHeader.parse(buffer);
+        if (dimensions) {
+          const transposed = ExifReader.isTransposed(slideImage.exif?.orientation ?? 1);
+          slideImage.width = transposed ? dimensions.height : dimensions.width;
+          slideImage.height = transposed ? dimensions.width : dimensions.height;
+        }
+      }
+
+      return { slideImage, buffer };
+    } catch (error) {
+      Logger.warn(`Prefetch failed: ${(error as Error).message}`);
+      return null;
+    }
+  }
+
+  private fill(target: number): void {
+    while (this.slots.length < target) {
+      const slot: PrefetchSlot = {
+        promise: Promise.resolve(null),
+        settled: false,
+        entry: null,
+      };
+      slot.promise = PrefetchQueue.loadSlide(this.config).then((entry) => {
+        slot.settled = true;
+        slot.entry = entry;
+        return entry;
+      });
+      this.slots.push(slot);
+    }
+  }
+
+  // Failed background fetches, and slides blocked while they waited, are dropped silently and replaced by fill().
+  // Returns how many of them failed
+  private discardFailed(): number {
+    const failed = this.slots.filter((slot) => slot.settled && !slot.entry).length;
+    this.slots = this.slots.filter((slot) => !slot.settled || (slot.entry && !Blocklist.blocks(slot.entry.slideImage)));
+    return failed;
+  }
+
+  // Returns null only when every slide in flight and a fresh fetch after them failed: the source has nothing to give
+  async take(): Promise<HistoryEntry | null> {
+    const target = Math.max(1, this.config.prefetch);
+    let failures = 0;
+
+    while (true) {
+      failures += this.discardFailed();
+      if (failures > target) {
+        return null;
+      }
+      this.fill(target);
+
+      // Sorted playback keeps the queue order, otherwise whichever slide finished loading goes first
+      const inOrder = this.config.sort !== "random";
+      const readyIndex = inOrder
+        ? (this.slots[0].entry ? 0 : -1)
+        : this.slots.findIndex((slot) => slot.entry);
+      if (readyIndex !== -1) {
+        const [slot] = this.slots.splice(readyIndex, 1);
+        this.fill(this.config.prefetch);
+        return slot.entry;
+      }
+
+      // Nothing ready yet: wait for the next slide, or whichever finishes first
+      const waitingFor = inOrder ? [this.slots[0]] : this.slots;
+      await Promise.race(waitingFor.map((slot) => slot.promise));
+    }
+  }
+
+  // Forgets every slide fetched or being fetched, after the settings that chose them changed
+  clear(): void {
+    this.slots = [];
+  }
+
+  putBack(entry: HistoryEntry): void {
+    this.slots.unshift({
+      promise: Promise.resolve(entry),
+      settled: true,
+      entry,
+    });
+  }
+}
+
+// Number of thumbnails across and down a contact sheet
+interface GridSize {
+  columns: number;
+  rows: number;
+}
+
+// Several slides laid out as numbered thumbnails, for triaging a source quickly
+class ContactSheet {
+  static readonly DEFAULT_SIZE: GridSize = { columns: 3, rows: 2 };
+  private static readonly GAP = 2; // Blank columns between thumbnails
+
+  readonly entries: HistoryEntry[];
+  private size: GridSize;
+
+  constructor(entries: HistoryEntry[], size: GridSize) {
+    this.entries = entries;
+    this.size = size;
+  }
+
+  // Parses "3x2" (columns x rows); the total stays below 100 so every thumbnail has a two digit number
+  static parseSize(value: string): GridSize | null {
+    const match = value.match(/^(\d+)x(\d+)$/);
+    if (!match) return null;
+
+    const columns = parseInt(match[1]);
+    const rows = parseInt(match[2]);
+    if (columns < 1 || rows < 1 || columns * rows > 99) return null;
+    return { columns, rows };
+  }
+
+  // Renders every thumbnail as text and lays them out with a number row above each one
+  async render(area: RenderArea, config: Config): Promise<string[]> {
+    const terminalWidth = TerminalUtils.getTerminalWidth();
+    const { columns, rows } = this.size;
+    const gap = ContactSheet.GAP;
+    const tileWidth = Math.max(1, Math.floor((terminalWidth - gap * (columns - 1)) / columns));
+    const tileHeight = Math.max(1, Math.floor(area.rows / rows) - 1);
+    const tileArea: RenderArea = { rows: tileHeight, columns: tileWidth };
+
+    const tiles: Cell[][][] = [];
+    let renderer = RendererRegistry.getRenderer(config.renderer) ?? RendererRegistry.getFallback();
+
+    for (const entry of this.entries) {
+      let tile = await this.renderTile(entry.buffer, renderer, tileArea, config);
+
+      // Graphics protocol output cannot be cut into cells, so thumbnails use the built-in renderer
+      if (tile === null && renderer !== RendererRegistry.getFallback()) {
+        renderer = RendererRegistry.getFallback();
+        tile = await this.renderTile(entry.buffer, renderer, tileArea, config);
+      }
+      tiles.push(tile ?? this.failedTile(tileArea));
+    }
+
+    const sheetWidth = columns * tileWidth + gap * (columns - 1);
+    const margin = " ".repeat(Math.max(0, Math.floor((terminalWidth - sheetWidth) / 2)));
+    const lines: string[] = [];
+
+    for (let row = 0; row * columns < tiles.length; row++) {
+      const rowTiles = tiles.slice(row * columns, (row + 1) * columns);
+
+      const labels = rowTiles.map((_, i) => {
+        const label = `[${row * columns + i + 1}]`;
+        const padding = Math.max(0, Math.floor((tileWidth - label.length) / 2));
+        return " ".repeat(padding) + Theme.paint("title", label) + " ".repeat(Math.max(0, tileWidth - padding - label.length));
+      });
+      lines.push(margin + labels.join(" ".repeat(gap)));
+
+      const spacer: Cell[] = Array.from({ length: gap }, () => ContactSheet.blankCell());
+      const merged = Array.from(
+        { length: tileHeight },
+        (_, y) => rowTiles.flatMap((tile, i) => i === 0 ? tile[y] : [...spacer, ...tile[y]]),
+      );
+      lines.push(...CellGrid.serialize(merged).map((line) => margin + line));
+    }
+
+    return lines;
+  }
+
+  // Renders one thumbnail, cropped of the renderer's centering and re-centered in its tile
+  private async renderTile(
+    buffer: Uint8Array,
+    renderer: Renderer,
+    area: RenderArea,
+    config: Config,
+  ): Promise<Cell[][] | null> {
+    let output: string;
+    try {
+      const normalized = await FormatConverter.normalize(buffer, renderer.getSupportedFormats());
+      output = await renderer.render(normalized, area, config);
+    } catch (error) {
+      Logger.warn(`Thumbnail failed: ${(error as Error).message}`);
+      return this.failedTile(area);
+    }
+
+    const grid = CellGrid.parse(output.split("\n"), area.rows, TerminalUtils.getTerminalWidth());
+    if (!grid) return null;
+
+    const content = CellGrid.crop(grid);
+    if (content.length === 0) return this.failedTile(area);
+
+    const width = Math.min(area.columns, content[0].length);
+    const left = Math.floor((area.columns - width) / 2);
+    const top = Math.floor((area.rows - content.length) / 2);
+    const blanks = (count: number) => Array.from({ length: count }, () => ContactSheet.blankCell());
+
+    return Array.from({ length: area.rows }, (_, y) => {
+      const row = content[y - top];
+      return row ? [...blanks(left), ...row.slice(0, width), ...blanks(area.columns - left - width)] : blanks(area.columns);
+    });
+  }
+
+  private failedTile(area: RenderArea): Cell[][] {
+    const message = "✗ unreadable".slice(0, area.columns);
+    const padding = " ".repeat(Math.max(0, Math.floor((area.columns - message.length) / 2)));
+    const lines = Array.from(
+      { length: area.rows },
+      (_, y) => y === Math.floor(area.rows / 2) ? padding + Theme.paint("error", message) : "",
+    );
+    return CellGrid.parse(lines, area.rows, area.columns)!;
+  }
+
+  private static blankCell(): Cell {
+    return { char: " ", style: { foreground: null, background: null, attributes: [] } };
+  }
+}
+
+// A ":" command: the values tab completion offers and what running it changes
+interface RuntimeCommand {
+  values: (config: Config) => string[];
+  run: (config: Config, value: string) => string | Promise<string>; // Returns the confirmation shown as a toast
+  refetch: boolean; // Prefetched slides were chosen by the old setting and are dropped
+}
+
+// Vim-style prompt on the status line that changes settings while the slideshow runs: editing, history and
+// tab completion of commands, sources and tags. A command given no value shows the current one
+class CommandLine {
+  private static readonly HISTORY_SIZE = 50;
+
+  private static readonly COMMANDS: Record<string, RuntimeCommand> = {
+    source: {
+      values: () => ["random", ...FetcherRegistry.getSourceNames()],
+      run: async (config, value) => {
+        if (!value) return `Source: ${config.source}`;
+
+        const source = CommandLine.expandHome(value);
+        if (FetcherRegistry.isDirectoryPath(source)) {
+          const info = await Deno.stat(source).catch(() => null);
+          if (!info?.isDirectory) throw new Error(`Not a directory: ${source}`);
+        } else if (source !== "random" && !FetcherRegistry.getFetcher(source)) {
+          const sources = ["random", ...FetcherRegistry.getSourceNames()].join(", ");
+          throw new Error(`Unknown source: ${source} (${sources} or a directory)`);
+        }
+
+        ConfigManager.setSource(config, source);
+        return `Next slides from ${source}${config.noSave ? ", not saved" : ""}`;
+      },
+      refetch: true,
+    },
+    tags: {
+      values: (config) => FetcherRegistry.getTags(config.source),
+      run: (config, value) => {
+        if (!value) return `Tags: ${config.customTags?.join(", ") ?? "random"}`;
+
+        // "none" goes back to random tags
+        const tags = value === "none" ? [] : value.split(",").map((tag) => tag.trim()).filter((tag) => tag.length > 0);
+        ConfigManager.setTags(config, tags);
+        return `Next slides tagged ${config.customTags?.join(", ") ?? "at random"}`;
+      },
+      refetch: true,
+    },
+    interval: {
+      values: () => [],
+      run: (config, value) => {
+        if (!value) return `Interval: ${config.intervalSeconds}s`;
+
+        const seconds = parseInt(value);
+        if (!/^\d+s?$/.test(value) || seconds <= 0) throw new Error(`Invalid interval: ${value}, expected seconds`);
+        config.intervalSeconds = seconds;
+        return `Interval ${seconds}s`;
+      },
+      refetch: false,
+    },
+    colors: {
+      values: () => ["on", "off"],
+      run: (config, value) => {
+        if (value === "on" || value === "off") {
+          config.colors = value === "on";
+        } else if (value) {
+          throw new Error(`Invalid value: ${value}, expected on or off`);
+        }
+        return `Colors ${config.colors ? "on" : "off"}${value ? " from the next slide" : ""}`;
+      },
+      refetch: false,
+    },
+    "save-dir": {
+      values: () => [],
+      run: async (config, value) => {
+        if (!value) return `Saving to ${config.outputDir}`;
+
+        const directory = CommandLine.expandHome(value);
+        await Deno.mkdir(directory, { recursive: true });
+        config.outputDir = directory;
+        return `Saving to ${directory}${config.noSave ? " with S, auto-save is off" : ""}`;
+      },
+      refetch: false,
+    },
+  };
+
+  private config: Config;
+  private open = false;
+  private text = "";
+  private cursor = 0;
+  private history: string[] = [];
+  private historyIndex = 0;
+
+  constructor(config: Config) {
+    this.config = config;
+  }
+
+  isOpen(): boolean {
+    return this.open;
+  }
+
+  start(): void {
+    this.open = true;
+    this.text = "";
+    this.cursor = 0;
+    this.historyIndex = this.history.length;
+  }
+
+  // Closes the prompt and returns what was typed, remembering it for the arrow keys
+  finish(): string {
+    const line = this.text.trim();
+    this.open = false;
+    if (line && this.history[this.history.length - 1] !== line) {
+      this.history.push(line);
+      this.history.splice(0, this.history.length - CommandLine.HISTORY_SIZE);
+    }
+    return line;
+  }
+
+  cancel(): void {
+    this.open = false;
+  }
+
+  // Edits the line; returns "submit" for Enter and "cancel" for Escape, Ctrl+C or Backspace on an empty line
+  handleKey(event: KeyInput): "submit" | "cancel" | null {
+    switch (event.key) {
+      case "enter":
+        return "submit";
+      case "escape":
+      case "ctrl+c":
+        return "cancel";
+      case "backspace":
+        if (this.text === "") return "cancel";
+        this.text = this.text.slice(0, Math.max(0, this.cursor - 1)) + this.text.slice(this.cursor);
+        this.cursor = Math.max(0, this.cursor - 1);
+        break;
+      case "delete":
+        this.text = this.text.slice(0, this.cursor) + this.text.slice(this.cursor + 1);
+        break;
+      case "arrow-left":
+        this.cursor = Math.max(0, this.cursor - 1);
+        break;
+      case "arrow-right":
+        this.cursor = Math.min(this.text.length, this.cursor + 1);
+        break;
+      case "home":
+      case "ctrl+a":
+        this.cursor = 0;
+        break;
+      case "end":
+      case "ctrl+e":
+        this.cursor = this.text.length;
+        break;
+      case "ctrl+u":
+        this.text = this.text.slice(this.cursor);
+        this.cursor = 0;
+        break;
+      case "ctrl+w": {
+        const start = this.text.slice(0, this.cursor).search(/\S*\s*$/);
+        this.text = this.text.slice(0, start) + this.text.slice(this.cursor);
+        this.cursor = start;
+        break;
+      }
+      case "arrow-up":
+      case "arrow-down":
+        this.recall(event.key === "arrow-up" ? -1 : 1);
+        break;
+      default:
+        if (event.key === "space") {
+          this.insert(" ");
+        } else if (event.key.length === 1) {
+          this.insert(event.shift ? event.key.toUpperCase() : event.key);
+        }
+    }
+    return null;
+  }
+
+  // Typed or pasted text; a paste of several lines becomes one
+  insert(text: string): void {
+    const clean = text.replace(/[\r\n\t]+/g, " ").replace(new RegExp("[\x00-\x1f\x7f]", "g"), "");
+    this.text = this.text.slice(0, this.cursor) + clean + this.text.slice(this.cursor);
+    this.cursor += clean.length;
+  }
+
+  // Completes the word before the cursor as far as the candidates agree; returns them all when several match
+  complete(): string[] {
+    const before = this.text.slice(0, this.cursor);
+    const commandMatch = before.match(/^\s*(\S*)$/);
+
+    let start: number;
+    let candidates: string[];
+    if (commandMatch) {
+      start = before.length - commandMatch[1].length;
+      candidates = Object.keys(CommandLine.COMMANDS);
     } else {
-      // Default handling for other sources
-      const urlParts = slideImage.url.split("/");
-      fileName = urlParts[urlParts.length - 1] || `slide-${Date.now()}.jpg`;
-      fileName = fileName.split("?")[0]; // Remove query parameters
-      if (!fileName.includes(".")) {
-        fileName += ".jpg";
-      }
-      subDir = slideImage.source;
+      const name = before.trim().split(/\s+/)[0];
+      const command = CommandLine.find(name);
+      if (!command) return [];
+
+      // Tags are completed one at a time, after the last comma
+      const separator = command === "tags" ? before.lastIndexOf(",") : -1;
+      start = separator !== -1 ? separator + 1 : before.indexOf(name) + name.length;
+      start += before.slice(start).match(/^\s*/)![0].length;
+      candidates = CommandLine.COMMANDS[command].values(this.config);
     }
 
-    // Create the full directory path
-    const fullDir = subDir ? `${outputDir}/${subDir}` : outputDir;
-    const savePath = `${fullDir}/${fileName}`;
+    const word = before.slice(start).toLowerCase();
+    const matches = candidates.filter((candidate) => candidate.toLowerCase().startsWith(word));
+    if (matches.length === 0) return [];
 
-    try {
-      // Create directory if it doesn't exist
-      await Deno.mkdir(fullDir, { recursive: true });
+    let completion = matches[0];
+    for (const match of matches) {
+      while (!match.toLowerCase().startsWith(completion.toLowerCase())) {
+        completion = completion.slice(0, -1);
+      }
+    }
+    if (matches.length === 1 && commandMatch) {
+      completion += " ";
+    }
 
-      // Check if file already exists
-      await Deno.stat(savePath);
-      Logger.debug(`Image already exists: ${savePath}`);
-    } catch {
-      // File doesn't exist, save it
-      await Deno.writeFile(savePath, buffer);
-      Logger.success(`Saved image: ${savePath}`);
+    this.text = this.text.slice(0, start) + completion + this.text.slice(this.cursor);
+    this.cursor = start + completion.length;
+    return matches.length > 1 ? matches : [];
+  }
+
+  async execute(line: string): Promise<{ message: string; refetch: boolean }> {
+    const name = line.split(/\s+/)[0];
+    const value = line.slice(name.length).trim();
+    const found = CommandLine.find(name);
+    if (!found) {
+      throw new Error(`Unknown command: ${name} (${Object.keys(CommandLine.COMMANDS).join(", ")})`);
     }
+
+    const command = CommandLine.COMMANDS[found];
+    const message = await command.run(this.config, value);
+    return { message, refetch: command.refetch && value !== "" };
+  }
+
+  // The line as drawn on the status line, scrolled so the cursor stays in view
+  render(columns: number): string {
+    const visible = Math.max(1, columns - 2);
+    const offset = Math.max(0, this.cursor - visible + 1);
+    const text = this.text.slice(offset, offset + visible);
+    const cursor = this.cursor - offset;
+    return Theme.paint("key", ":") + Theme.paint("text", text.slice(0, cursor)) +
+      Theme.badge("text", text[cursor] ?? " ") + Theme.paint("text", text.slice(cursor + 1));
+  }
+
+  private recall(step: number): void {
+    this.historyIndex = Math.max(0, Math.min(this.history.length, this.historyIndex + step));
+    this.text = this.history[this.historyIndex] ?? "";
+    this.cursor = this.text.length;
+  }
+
+  // The command a name stands for, or the only one it is the start of: ":int 5" is ":interval 5"
+  private static find(name: string): string | null {
+    const names = Object.keys(this.COMMANDS);
+    const matches = names.includes(name) ? [name] : names.filter((command) => command.startsWith(name));
+    return matches.length === 1 ? matches[0] : null;
+  }
+
+  private static expandHome(path: string): string {
+    const home = Deno.env.get("HOME");
+    return home && (path === "~" || path.startsWith("~/")) ? home + path.slice(1) : path;
   }
 }
 
-// Utility classes for UI components
-class TerminalUtils {
-  static getTerminalWidth(): number {
+// Main application class
+class TTYSlide {
+  private static readonly RESIZE_DEBOUNCE_MS = 150;
+  private static readonly DIGIT_TIMEOUT_MS = 600; // Wait for the second digit of a thumbnail number
+  private static readonly SHEET_FETCH_ATTEMPTS = 3; // Failed fetches in a row before a sheet gives up
+  private static readonly INTERVAL_STEPS = [1, 2, 3, 5, 8, 10, 15, 20, 30, 45, 60, 90, 120, 180, 300, 600]; // Seconds
+  private config: Config;
+  private headless: boolean; // Plain output for pipes, cron jobs and --once: no screen, keys or progress bar
+  private isRunning = true;
+  private isPaused = false;
+  private skipRequested = false;
+  private saveRequested = false;
+  private currentSlideImage: SlideImage | null = null;
+  private currentImageBuffer: Uint8Array | null = null;
+  private navigationRequest: "back" | "forward" = "forward";
+  private resizeRequestedAt: number | null = null;
+  private signalListeners: [Deno.Signal, () => void][] = []; // Removed again on exit
+  private animationPlayer: AnimationPlayer | null = null;
+  private viewport = new SlideViewport();
+  private redrawRequested = false;
+  private kenBurns: KenBurnsEffect | null = null;
+  private showingSheet: boolean;
+  private sheet: ContactSheet | null = null;
+  private sheetAction: "new" | "show" = "new";
+  private openedEntry: HistoryEntry | null = null;
+  private saveArmed = false;
+  private pendingDigits = "";
+  private digitTimer: ReturnType<typeof setTimeout> | null = null;
+  private helpVisible = false;
+  private blockMenu: { slideImage: SlideImage; options: { kind: BlockKind; value: string }[] } | null = null;
+  private progressBarColumns = { start: 0, width: 0 }; // Where the bar was last drawn, for clicks
+  private seekRequest: number | null = null; // Fraction of the interval to jump to
+  private history: SlideHistory;
+  private prefetchQueue: PrefetchQueue;
+  private commandLine: CommandLine;
+  private keyboardHandler: KeyboardHandler;
+  private slidesShown = 0;
+  private slidesFailed = 0;
+
+  constructor(config: Config) {
+    this.config = config;
+    this.headless = config.once || !Deno.stdout.isTerminal();
+    ScreenCompositor.setCaptionPosition(config.captionPosition);
+    this.showingSheet = config.grid !== null;
+    this.history = new SlideHistory(config.historySize);
+    this.prefetchQueue = new PrefetchQueue(config);
+    this.commandLine = new CommandLine(config);
+    this.keyboardHandler = new KeyboardHandler(!this.headless);
+    this.setupSignalHandlers();
+    this.setupKeyboardHandlers();
+  }
+
+  private setupSignalHandlers(): void {
+    const onInterrupt = () => {
+      Logger.info("Received SIGINT, shutting down gracefully...");
+      this.cleanup();
+      Deno.exit(0);
+    };
+    Deno.addSignalListener("SIGINT", onInterrupt);
+    this.signalListeners.push(["SIGINT", onInterrupt]);
+
+    // Terminal resize: the current slide is re-rendered once the size settles
+    const onResize = () => {
+      this.resizeRequestedAt = Date.now();
+    };
     try {
-      return Deno.consoleSize().columns;
+      Deno.addSignalListener("SIGWINCH", onResize);
+      this.signalListeners.push(["SIGWINCH", onResize]);
     } catch {
-      return 80; // fallback width
+      Logger.warn("Terminal resize events are not supported on this platform");
     }
   }
 
-  static getTerminalSize(): { rows: number; columns: number } {
-    try {
-      return Deno.consoleSize();
-    } catch {
-      return { rows: 24, columns: 80 }; // fallback size
+  private isResizeSettled(): boolean {
+    return this.resizeRequestedAt !== null &&
+      Date.now() - this.resizeRequestedAt >= TTYSlide.RESIZE_DEBOUNCE_MS;
+  }
+
+  // The current slide has to be drawn again after a resize, zoom, pan or display toggle
+  private needsRedraw(): boolean {
+    return this.redrawRequested || this.isResizeSettled();
+  }
+
+  private async renderSlide(slideImage: SlideImage, buffer: Uint8Array, withTransition = false): Promise<void> {
+    // Any pending resize or view change is handled by rendering at the current size
+    this.resizeRequestedAt = null;
+    this.redrawRequested = false;
+    this.animationPlayer = null;
+
+    // The caption is laid out first, since its height decides how much room the image gets
+    ScreenCompositor.set("caption", this.config.caption ? TerminalUtils.formatCaption(slideImage, this.config) : []);
+
+    const transition = withTransition && !this.headless ? SlideTransition.pick(this.config.transition) : null;
+    const animation = await ImageProcessor.displayImage(buffer, this.config, transition, this.viewport);
+    if (animation) {
+      this.animationPlayer = new AnimationPlayer(animation);
     }
   }
 
-  static wrapText(text: string, width: number): string[] {
-    const words = text.split(" ");
-    const lines: string[] = [];
-    let currentLine = "";
+  private async renderSheet(sheet: ContactSheet): Promise<void> {
+    this.resizeRequestedAt = null;
+    this.redrawRequested = false;
+    this.animationPlayer = null;
 
-    for (const word of words) {
-      if ((currentLine + " " + word).length <= width) {
-        currentLine = currentLine ? currentLine + " " + word : word;
-      } else {
-        if (currentLine) lines.push(currentLine);
-        currentLine = word;
+    // The caption line explains how to pick a thumbnail
+    const hint = `Type 1-${sheet.entries.length} to open a slide, ${Keymap.describeKeys("save", 1)} then a number to save it, ` +
+      `${Keymap.describeKeys("grid", 1)} to leave the grid`;
+    const padding = Math.max(0, Math.floor((TerminalUtils.getTerminalWidth() - hint.length) / 2));
+    ScreenCompositor.set("caption", [" ".repeat(padding) + Theme.paint("caption", hint)]);
+
+    await ImageProcessor.displayContactSheet(sheet, this.config);
+  }
+
+  // Draws whatever is on screen again, after a resize, zoom or pan
+  private async redraw(): Promise<void> {
+    if (this.helpVisible) {
+      ScreenCompositor.set("panel", Keymap.helpPanel()); // Centered again for the new width
+    } else if (this.blockMenu) {
+      ScreenCompositor.set("panel", this.blockPanel(this.blockMenu.options));
+    }
+    if (this.showingSheet && this.sheet) {
+      await this.renderSheet(this.sheet);
+    } else if (this.currentSlideImage && this.currentImageBuffer) {
+      await this.renderSlide(this.currentSlideImage, this.currentImageBuffer);
+    } else {
+      this.resizeRequestedAt = null;
+      this.redrawRequested = false;
+    }
+  }
+
+  private setupKeyboardHandlers(): void {
+    // Pause/Resume
+    this.onAction("pause", () => {
+      this.isPaused = !this.isPaused;
+      // No console.log here - state change will be reflected in progress bar
+    });
+
+    // Step forward through history, then skip to a new slide
+    this.onAction("next", () => {
+      this.requestNavigation("forward");
+    });
+
+    // Go back to the previous slide in history
+    this.onAction("previous", () => {
+      this.requestNavigation("back");
+    });
+
+    // Zoom in and out of the current slide, which pauses the slideshow
+    this.onAction("zoom-in", () => this.changeZoom(() => this.viewport.zoomIn()));
+    this.onAction("zoom-out", () => this.changeZoom(() => this.viewport.zoomOut()));
+
+    // Pan around a zoomed slide
+    const panActions: [KeyAction, number, number][] = [
+      ["pan-left", -1, 0],
+      ["pan-down", 0, 1],
+      ["pan-up", 0, -1],
+      ["pan-right", 1, 0],
+    ];
+    for (const [action, dx, dy] of panActions) {
+      this.onAction(action, () => {
+        if (!this.showingSheet && this.viewport.pan(dx, dy)) {
+          this.kenBurns = null;
+          this.redrawRequested = true;
+        }
+      });
+    }
+
+    // Favourite and rate the slide on screen; on the contact sheet the number keys open thumbnails instead
+    this.onAction("favorite", () => this.toggleFavorite());
+    Keymap.keysFor("rate").slice(0, 5).forEach((key, i) => {
+      this.keyboardHandler.on(key, () => this.rateSlide(i + 1));
+    });
+
+    // Choose what to block: the slide, its artist or one of its tags; the menu takes keys until it is closed
+    this.onAction("block", () => this.openBlockMenu());
+
+    // Save current slide (even in --no-save mode); on the contact sheet, save the next number typed
+    this.onAction("save", () => {
+      if (this.showingSheet) {
+        this.saveArmed = true;
+        ScreenCompositor.toast(Theme.paint("warning", "Save which thumbnail? Type its number"));
+        ScreenCompositor.flushInBackground();
+        return;
       }
+      this.saveRequested = true;
+      // No console.log here - save will happen at end of slide cycle
+    });
+
+    // Display toggles re-render the slide on screen, or the contact sheet, straight away
+    const toggles: [KeyAction, "colors" | "fill" | "caption" | "invert", string][] = [
+      ["toggle-colors", "colors", "Colors"],
+      ["toggle-fill", "fill", "Fill"],
+      ["toggle-caption", "caption", "Caption"],
+      ["toggle-invert", "invert", "Invert"],
+    ];
+    for (const [action, option, label] of toggles) {
+      this.onAction(action, () => {
+        this.config[option] = !this.config[option];
+        this.redrawRequested = true;
+        ScreenCompositor.toast(Theme.paint("success", `${label} ${this.config[option] ? "on" : "off"}`));
+        ScreenCompositor.flushInBackground();
+      });
     }
 
-    if (currentLine) lines.push(currentLine);
-    return lines;
+    // Shorten or lengthen the interval; the slide on screen keeps its progress
+    this.onAction("interval-down", () => this.changeInterval(-1));
+    this.onAction("interval-up", () => this.changeInterval(1));
+
+    // Switch between single slides and the contact sheet grid
+    this.onAction("grid", () => {
+      this.showingSheet = !this.showingSheet;
+      this.sheetAction = "show"; // Coming back shows the last sheet rather than fetching a new one
+      this.saveArmed = false;
+      this.pendingDigits = "";
+      this.skipRequested = true;
+    });
+
+    // Number keys: Open (or save) a thumbnail of the contact sheet
+    for (const digit of ["0", "1", "2", "3", "4", "5", "6", "7", "8", "9"]) {
+      this.keyboardHandler.on(digit, () => this.typeThumbnailDigit(digit));
+    }
+
+    // Cancel a pending thumbnail save and close the help panel
+    this.onAction("cancel", () => {
+      this.saveArmed = false;
+      this.pendingDigits = "";
+      if (this.helpVisible) {
+        this.toggleHelp();
+      }
+    });
+
+    // Show or hide the list of key bindings over the slide
+    this.onAction("help", () => this.toggleHelp());
+
+    // Open the ":" command line; it takes every key until it is closed
+    this.onAction("command", () => this.openCommandLine());
+
+    this.onAction("quit", () => {
+      this.cleanup();
+      Deno.exit(0);
+    });
+
+    // Ctrl+C: Always quits, whatever the keymap says
+    this.keyboardHandler.on('ctrl+c', () => {
+      this.cleanup();
+      Deno.exit(0);
+    });
+
+    this.keyboardHandler.onMouse((event) => this.handleMouse(event));
+
+    // Pasted text goes into the command line, e.g. a directory path for :source
+    this.keyboardHandler.onPaste((event) => {
+      if (this.commandLine.isOpen()) {
+        this.commandLine.insert(event.text);
+        this.drawCommandLine();
+      }
+    });
   }
 
-  static displayCaption(slideImage: SlideImage): void {
-    const terminalWidth = this.getTerminalWidth();
-    const separator = "=".repeat(terminalWidth);
+  private openCommandLine(): void {
+    this.commandLine.start();
+    this.keyboardHandler.capture((event) => this.typeCommand(event));
+    this.drawCommandLine();
+  }
 
-    console.log("\n" + brightCyan(separator));
+  private typeCommand(event: KeyInput): void {
+    if (event.key === "tab") {
+      const candidates = this.commandLine.complete();
+      if (candidates.length > 0) {
+        ScreenCompositor.toast(Theme.paint("muted", candidates.join("  ")));
+      }
+      this.drawCommandLine();
+      return;
+    }
 
-    // Source and artist line
-    let sourceInfo = `📷 Source: ${bold(white(slideImage.source.toUpperCase()))}`;
-    if (slideImage.artist) {
-      sourceInfo += ` | 🎨 ${bold(white(slideImage.artist))}`;
+    const result = this.commandLine.handleKey(event);
+    if (result === null) {
+      this.drawCommandLine();
+      return;
     }
-    console.log(sourceInfo);
 
-    // Caption or description
-    if (slideImage.caption) {
-      console.log(yellow(slideImage.caption));
+    this.keyboardHandler.capture(null);
+    ScreenCompositor.set("prompt", []);
+    if (result === "submit") {
+      this.runCommand(this.commandLine.finish());
+    } else {
+      this.commandLine.cancel();
+      ScreenCompositor.flushInBackground();
     }
+  }
 
-    if (slideImage.description) {
-      const descLines = this.wrapText(`📝 ${slideImage.description}`, terminalWidth);
-      descLines.forEach((line) => console.log(green(line)));
+  private drawCommandLine(): void {
+    ScreenCompositor.set("prompt", [this.commandLine.render(TerminalUtils.getTerminalWidth())]);
+    ScreenCompositor.flushInBackground();
+  }
+
+  // Changes apply from the next slide; a new source or tags also replace the slides fetched in advance
+  private async runCommand(line: string): Promise<void> {
+    if (line) {
+      try {
+        const { message, refetch } = await this.commandLine.execute(line);
+        if (refetch) {
+          this.prefetchQueue.clear();
+        }
+        ScreenCompositor.toast(Theme.paint("success", message));
+      } catch (error) {
+        ScreenCompositor.toast(Theme.paint("error", (error as Error).message));
+      }
     }
+    await ScreenCompositor.flush();
+  }
 
-    // Tags if available
-    if (slideImage.tags && slideImage.tags.length > 0) {
-      const tagText = slideImage.tags.join(" • ");
-      const tagLines = this.wrapText(`🏷️  ${tagText}`, terminalWidth);
-      tagLines.forEach((line) => console.log(brightCyan(line)));
+  // Clicks on the right or left half go forward or back, the wheel moves through history
+  // and a click on the progress bar jumps to that point of the interval
+  private handleMouse(event: MouseInput): void {
+    if (event.action === "wheel-up" || event.action === "wheel-down") {
+      if (!this.showingSheet) {
+        this.requestNavigation(event.action === "wheel-up" ? "back" : "forward");
+      }
+      return;
     }
+    if (event.action !== "press" || event.button !== 0) return;
 
-    console.log(brightCyan(separator) + "\n");
+    const region = ScreenCompositor.regionAt(event.row);
+    if (region === "panel") {
+      if (this.blockMenu) {
+        this.closeBlockMenu();
+      } else {
+        this.toggleHelp();
+      }
+    } else if (region === "status") {
+      const { start, width } = this.progressBarColumns;
+      if (width > 0 && event.column >= start && event.column < start + width) {
+        this.seekRequest = (event.column - start + 0.5) / width;
+      }
+    } else if (!this.showingSheet) {
+      const half = TerminalUtils.getTerminalWidth() / 2;
+      this.requestNavigation(event.column > half ? "forward" : "back");
+    }
   }
-}
-
-// Keyboard input handling
-class KeyboardHandler {
-  private listeners: Map<string, () => void> = new Map();
-  private isListening = false;
 
-  constructor() {
-    this.setupRawMode();
+  private onAction(action: KeyAction, callback: () => void): void {
+    for (const key of Keymap.keysFor(action)) {
+      this.keyboardHandler.on(key, callback);
+    }
   }
 
-  private setupRawMode(): void {
-    try {
-      // Enable raw mode to capture individual key presses
-      Deno.stdin.setRaw(true, { cbreak: true });
-      this.isListening = true;
-      this.startListening();
-    } catch {
-      Logger.warn("Failed to enable raw mode for keyboard input");
+  // The panel is drawn over the slide, which keeps playing underneath it
+  private toggleHelp(): void {
+    this.helpVisible = !this.helpVisible;
+    ScreenCompositor.set("panel", this.helpVisible ? Keymap.helpPanel() : []);
+    if (!this.helpVisible) {
+      // Graphics were erased along with the panel rows, so the whole image is drawn again
+      ScreenCompositor.invalidate("image");
     }
+    ScreenCompositor.flushInBackground();
   }
 
-  private async startListening(): Promise<void> {
-    const buffer = new Uint8Array(3);
-    while (this.isListening) {
-      try {
-        const nread = await Deno.stdin.read(buffer);
-        if (nread === null) break;
+  private openBlockMenu(): void {
+    if (this.showingSheet || !this.currentSlideImage) return;
 
-        const key = this.parseKeyPress(buffer.slice(0, nread));
-        if (key && this.listeners.has(key)) {
-          this.listeners.get(key)!();
-        }
-      } catch {
-        // Handle read errors gracefully
-        break;
-      }
+    // Local files and images without a credited artist are only offered by themselves
+    const slideImage = this.currentSlideImage;
+    const options: { kind: BlockKind; value: string }[] = [{ kind: "image", value: slideImage.url }];
+    if (slideImage.artist && !["Unknown", "Local File"].includes(slideImage.artist)) {
+      options.push({ kind: "artist", value: slideImage.artist });
     }
+    options.push(...(slideImage.tags ?? []).map((tag) => ({ kind: "tag" as const, value: tag })));
+
+    this.helpVisible = false;
+    this.blockMenu = { slideImage, options: options.slice(0, 9) }; // One digit each
+    this.keyboardHandler.capture((event) => this.chooseBlock(event));
+    ScreenCompositor.set("panel", this.blockPanel(this.blockMenu.options));
+    ScreenCompositor.flushInBackground();
   }
 
-  private parseKeyPress(buffer: Uint8Array): string | null {
-    if (buffer.length === 0) return null;
+  private blockPanel(options: { kind: BlockKind; value: string }[]): string[] {
+    const rows: [string, string][] = options.map(({ kind, value }, i) => [
+      `${i + 1}`,
+      kind === "image" ? "This image" : `${kind === "artist" ? "Artist" : "Tag"}: ${value}`,
+    ]);
+    rows.push(["ESC", "Cancel"]);
+    return TerminalUtils.panel("Block", rows);
+  }
 
-    // Handle single character keys
-    if (buffer.length === 1) {
-      const char = String.fromCharCode(buffer[0]);
+  private async chooseBlock(event: KeyInput): Promise<void> {
+    const option = this.blockMenu?.options[parseInt(event.key) - 1];
+    const cancel = ["escape", "ctrl+c", ...Keymap.keysFor("block")].includes(event.key);
+    if (!this.blockMenu || (!option && !cancel)) return;
 
-      // Handle special cases
-      switch (buffer[0]) {
-        case 27: return 'escape';
-        case 32: return 'space';
-        case 13: return 'enter';
-        case 127: return 'backspace';
-        case 3: return 'ctrl+c';
-        default:
-          if (buffer[0] >= 32 && buffer[0] <= 126) {
-            return char.toLowerCase();
-          }
-          return null;
-      }
+    const slideImage = this.blockMenu.slideImage;
+    this.closeBlockMenu();
+    if (!option) return;
+
+    try {
+      await Blocklist.add(option.kind, option.value);
+    } catch (error) {
+      ScreenCompositor.toast(Theme.paint("error", `Cannot update the blocklist: ${(error as Error).message}`));
+      await ScreenCompositor.flush();
+      return;
     }
 
-    // Handle escape sequences (arrow keys, etc.)
-    if (buffer.length >= 3 && buffer[0] === 27 && buffer[1] === 91) {
-      switch (buffer[2]) {
-        case 65: return 'arrow-up';
-        case 66: return 'arrow-down';
-        case 67: return 'arrow-right';
-        case 68: return 'arrow-left';
-        default: return null;
-      }
+    const label = option.kind === "image" ? "image" : `${option.kind} ${option.value}`;
+    ScreenCompositor.toast(Theme.paint("warning", `⛔ Blocked ${label}`));
+    await ScreenCompositor.flush();
+
+    // Blocked slides leave the history, and the one on screen is replaced straight away
+    this.history.remove((entry) => Blocklist.blocks(entry.slideImage));
+    if (this.currentSlideImage === slideImage && Blocklist.blocks(slideImage)) {
+      this.requestNavigation("forward");
     }
+  }
 
-    return null;
+  private closeBlockMenu(): void {
+    this.blockMenu = null;
+    this.keyboardHandler.capture(null);
+    ScreenCompositor.set("panel", []);
+    ScreenCompositor.invalidate("image"); // As when the help panel closes
+    ScreenCompositor.flushInBackground();
   }
 
-  on(key: string, callback: () => void): void {
-    this.listeners.set(key, callback);
+  // Ken Burns frames skip the caption layout and full repaint of a slide render
+  private async drawKenBurnsFrame(): Promise<void> {
+    if (!this.currentImageBuffer) return;
+
+    try {
+      await ImageProcessor.displayViewport(this.currentImageBuffer, this.config, this.viewport);
+    } catch (error) {
+      Logger.warn(`Ken Burns frame failed: ${(error as Error).message}`);
+      this.kenBurns = null;
+    }
   }
 
-  off(key: string): void {
-    this.listeners.delete(key);
+  private changeZoom(zoom: () => boolean): void {
+    if (this.showingSheet) return;
+
+    // Manual zoom takes over from Ken Burns and holds the slide until the user resumes
+    this.kenBurns = null;
+    this.isPaused = true;
+    if (zoom()) {
+      this.redrawRequested = true;
+    }
   }
 
-  destroy(): void {
-    this.isListening = false;
+  private async toggleFavorite(): Promise<void> {
+    if (this.showingSheet || !this.currentSlideImage) return;
+
     try {
-      Deno.stdin.setRaw(false);
-    } catch {
-      // Ignore errors when disabling raw mode
+      const entry = await Library.toggleFavorite(this.currentSlideImage);
+      ScreenCompositor.toast(
+        entry.favorite
+          ? Theme.paint("success", `♥ Added to favourites ${Library.stars(entry.rating)}`.trimEnd())
+          : Theme.paint("muted", "♡ Removed from favourites"),
+      );
+    } catch (error) {
+      ScreenCompositor.toast(Theme.paint("error", `Cannot update the library: ${(error as Error).message}`));
     }
+    await ScreenCompositor.flush();
   }
-}
 
-// Main application class
-class TTYSlide {
-  private config: Config;
-  private isRunning = true;
-  private isPaused = false;
-  private skipRequested = false;
-  private saveRequested = false;
-  private currentSlideImage: SlideImage | null = null;
-  private currentImageBuffer: Uint8Array | null = null;
-  private keyboardHandler: KeyboardHandler;
+  private async rateSlide(rating: number): Promise<void> {
+    if (this.showingSheet || !this.currentSlideImage) return;
 
-  constructor(config: Config) {
-    this.config = config;
-    this.keyboardHandler = new KeyboardHandler();
-    this.setupSignalHandlers();
-    this.setupKeyboardHandlers();
+    try {
+      const entry = await Library.rate(this.currentSlideImage, rating);
+      ScreenCompositor.toast(
+        entry.rating
+          ? Theme.paint("success", `${Library.stars(entry.rating)} Rated ${entry.rating}/5`)
+          : Theme.paint("muted", "Rating cleared"),
+      );
+    } catch (error) {
+      ScreenCompositor.toast(Theme.paint("error", `Cannot update the library: ${(error as Error).message}`));
+    }
+    await ScreenCompositor.flush();
   }
 
-  private setupSignalHandlers(): void {
-    Deno.addSignalListener("SIGINT", () => {
-      Logger.info("Received SIGINT, shutting down gracefully...");
-      this.cleanup();
-      Deno.exit(0);
-    });
+  // Moves to the next shorter or longer of the usual intervals
+  private changeInterval(direction: -1 | 1): void {
+    const current = this.config.intervalSeconds;
+    const steps = TTYSlide.INTERVAL_STEPS;
+    const next = direction > 0
+      ? steps.find((seconds) => seconds > current) ?? current
+      : steps.findLast((seconds) => seconds < current) ?? current;
+
+    this.config.intervalSeconds = next;
+    ScreenCompositor.toast(Theme.paint("success", `Interval ${next}s`));
+    ScreenCompositor.flushInBackground();
   }
 
-  private setupKeyboardHandlers(): void {
-    // Space key: Pause/Resume
-    this.keyboardHandler.on('space', () => {
-      this.isPaused = !this.isPaused;
-      // No console.log here - state change will be reflected in progress bar
-    });
+  // A digit that could start a two digit thumbnail number waits briefly for the next one
+  private async typeThumbnailDigit(digit: string): Promise<void> {
+    if (!this.showingSheet || !this.sheet) return;
 
-    // N key or Right arrow: Skip to next slide
-    this.keyboardHandler.on('n', () => {
-      this.skipRequested = true;
-      // No console.log here - skip will happen immediately
-    });
+    if (this.digitTimer !== null) {
+      clearTimeout(this.digitTimer);
+      this.digitTimer = null;
+    }
 
-    this.keyboardHandler.on('arrow-right', () => {
-      this.skipRequested = true;
-      // No console.log here - skip will happen immediately
-    });
+    this.pendingDigits += digit;
+    if (parseInt(this.pendingDigits) * 10 > this.sheet.entries.length || this.pendingDigits.length >= 2) {
+      await this.chooseThumbnail();
+    } else {
+      this.digitTimer = setTimeout(() => this.chooseThumbnail(), TTYSlide.DIGIT_TIMEOUT_MS);
+    }
+  }
 
-    // S key: Save current slide (even in --no-save mode)
-    this.keyboardHandler.on('s', () => {
-      this.saveRequested = true;
-      // No console.log here - save will happen at end of slide cycle
-    });
+  private async chooseThumbnail(): Promise<void> {
+    const number = parseInt(this.pendingDigits);
+    this.pendingDigits = "";
+    this.digitTimer = null;
 
-    // Q key: Quit
-    this.keyboardHandler.on('q', () => {
-      this.cleanup();
-      Deno.exit(0);
-    });
+    const entry = this.sheet?.entries[number - 1];
+    if (!this.showingSheet || !entry) {
+      ScreenCompositor.toast(Theme.paint("error", `No thumbnail ${number}`));
+      ScreenCompositor.flushInBackground();
+      return;
+    }
 
-    // Ctrl+C: Also quit (backup)
-    this.keyboardHandler.on('ctrl+c', () => {
-      this.cleanup();
-      Deno.exit(0);
-    });
+    if (this.saveArmed) {
+      this.saveArmed = false;
+      await this.saveSlide(entry.buffer, entry.slideImage);
+      return;
+    }
+
+    // The opened slide stays on screen until the user resumes or returns to the grid
+    this.openedEntry = entry;
+    this.showingSheet = false;
+    this.isPaused = true;
+    this.skipRequested = true;
+  }
+
+  private requestNavigation(direction: "back" | "forward"): void {
+    this.navigationRequest = direction;
+    this.skipRequested = true;
+    // No console.log here - navigation will happen immediately
   }
 
   private cleanup(): void {
     this.isRunning = false;
     LoadingAnimation.stop(); // Ensure loading animation is stopped
     this.keyboardHandler.destroy();
-    // Clear terminal on exit
-    console.clear();
+    for (const [signal, listener] of this.signalListeners.splice(0)) {
+      Deno.removeSignalListener(signal, listener);
+    }
+    // Give the terminal back its original screen
+    ScreenCompositor.leave();
+    SessionRecorder.stop();
   }
 
-  async run(): Promise<void> {
+  // Returns the exit code once --count slides are done: 0 when every one of them was rendered, 1 otherwise
+  async run(): Promise<number> {
     Logger.info("Starting TTY Slide...");
     Logger.info(`Configuration: ${JSON.stringify(this.config, null, 2)}`);
 
-    // Clear screen and show keyboard controls
-    console.clear();
-    console.log(brightCyan("🎮 TTY Slide - Keyboard Controls:"));
-    console.log(`${green("SPACE")} - Pause/Resume | ${green("N/→")} - Skip | ${green("S")} - Save | ${green("Q")} - Quit\n`);
+    if (!this.headless) {
+      // Switch to the slideshow screen and show keyboard controls
+      ScreenCompositor.enter(this.config.mouse);
+      ScreenCompositor.set("header", [
+        Theme.paint("title", "🎮 TTY Slide - Keyboard Controls:"),
+        Keymap.headerLine(),
+      ]);
+      await ScreenCompositor.flush();
+    }
 
     // Ensure output directory exists
     try {
@@ -1367,62 +8183,51 @@ class TTYSlide {
         `Failed to create output directory: ${this.config.outputDir}`,
         error as Error,
       );
-      return;
+      this.cleanup();
+      return 1;
     }
 
     while (this.isRunning) {
       try {
-        // Reset control flags
+        // Consume the pending navigation and reset control flags
+        const navigation = this.navigationRequest;
+        this.navigationRequest = "forward";
         this.skipRequested = false;
         this.saveRequested = false;
 
-        // Start loading animation
-        LoadingAnimation.start("Fetching image...");
-
-        let fetcher: ImageFetcher | null;
-
-        if (this.config.source === "random") {
-          fetcher = FetcherRegistry.getRandomFetcher();
-          Logger.info(`Randomly selected source: ${fetcher.getSource()}`);
-        } else {
-          fetcher = FetcherRegistry.getFetcher(this.config.source);
-        }
-
-        if (!fetcher) {
-          LoadingAnimation.stop();
-          Logger.error(`Unknown source: ${this.config.source}`);
-          await this.sleep(5000);
+        if (this.showingSheet) {
+          await this.runContactSheet(navigation);
           continue;
         }
 
-        const slideImage = await fetcher.fetchRandomImage(this.config);
-
-        if (!slideImage) {
-          LoadingAnimation.stop();
-          Logger.warn("Failed to fetch image, retrying in 5 seconds...");
-          await this.sleep(5000);
-          continue;
+        // A thumbnail opened from the contact sheet is shown next and joins the history;
+        // otherwise replay from history when navigating, or fetch a fresh slide
+        let entry = this.openedEntry;
+        this.openedEntry = null;
+        if (entry) {
+          this.history.push(entry);
+        } else {
+          entry = navigation === "back"
+            ? this.history.back() ?? this.history.current()
+            : this.history.forward();
         }
-
-        // Check if skip was requested during fetch
-        if (this.skipRequested) {
-          LoadingAnimation.stop();
-          continue;
+        const isFreshSlide = entry === null;
+
+        if (!entry) {
+          const fetched = await this.fetchNextSlide();
+          if (fetched === "failed") {
+            Logger.warn("Failed to fetch image, retrying in 5 seconds...");
+            this.finishSlide(false, "Failed to fetch image");
+            await this.sleep(5000);
+            continue;
+          }
+          if (!fetched) continue;
+          entry = fetched;
+          this.history.push(entry);
         }
 
-        // Update loading message for download phase
-        LoadingAnimation.start("Downloading image...");
-
-        const imageBuffer = await ImageProcessor.downloadImage(
-          slideImage.url,
-          this.config.timeout,
-        );
-
-        // Check if skip was requested during download
-        if (this.skipRequested) {
-          LoadingAnimation.stop();
-          continue;
-        }
+        const slideImage = entry.slideImage;
+        const imageBuffer = entry.buffer;
 
         // Update loading message for processing phase
         LoadingAnimation.start("Converting to ASCII art...");
@@ -1431,22 +8236,28 @@ class TTYSlide {
         this.currentSlideImage = slideImage;
         this.currentImageBuffer = imageBuffer;
 
+        // Every slide starts fully visible, or at the first Ken Burns position
+        this.viewport.reset();
+        this.kenBurns = this.config.kenBurns && !this.headless && !ImageHeader.isAnimated(imageBuffer)
+          ? new KenBurnsEffect()
+          : null;
+        this.kenBurns?.update(this.viewport, 0, this.config.intervalSeconds * 1000);
+
         try {
-          // Stop loading animation and clear screen before displaying image
+          // Stop loading animation before displaying image
           LoadingAnimation.stop();
-          console.clear();
-          console.log(brightCyan("🎮 TTY Slide - Keyboard Controls:"));
-          console.log(`${green("SPACE")} - Pause/Resume | ${green("N/→")} - Skip | ${green("S")} - Save | ${green("Q")} - Quit\n`);
-
-          await ImageProcessor.displayImage(imageBuffer, this.config);
+          await this.renderSlide(slideImage, imageBuffer, true);
         } catch (error) {
           LoadingAnimation.stop(); // Stop loading animation on error
 
-          // Check if this is a jp2a error we should handle gracefully
-          if (error instanceof Error && error.message.includes("jp2a failed")) {
+          // Check if this is a renderer error we should handle gracefully
+          if (error instanceof RenderError) {
             Logger.warn(`Image conversion failed: ${error.message}`);
+            this.finishSlide(false, `Image conversion failed: ${error.message}`);
             // Wait a moment to let user see the error message
-            await this.sleep(3000);
+            if (!this.headless) {
+              await this.sleep(3000);
+            }
             continue; // Skip to next image
           } else {
             // Re-throw other types of errors
@@ -1454,52 +8265,190 @@ class TTYSlide {
           }
         }
 
-        if (this.config.caption) {
-          TerminalUtils.displayCaption(slideImage);
-        }
-
-        if (!this.config.noSave) {
-          await ImageProcessor.saveImage(
-            imageBuffer,
-            slideImage,
-            this.config.outputDir,
-          );
+        // Only auto-save freshly fetched slides, not ones replayed from history
+        if (!this.config.noSave && isFreshSlide) {
+          await this.saveWithExports(imageBuffer, slideImage, this.config.exportFormats);
         }
 
         if (this.isRunning) {
-          await this.handleProgressBarWithControls();
+          await this.holdSlide();
         }
 
         // Handle save request if triggered during this slide
         if (this.saveRequested && this.currentSlideImage && this.currentImageBuffer) {
-          try {
-            await ImageProcessor.saveImage(
-              this.currentImageBuffer,
-              this.currentSlideImage,
-              this.config.outputDir,
-            );
-            // Save success - no console.log to avoid shifting image
-          } catch {
-            // Save failed - no console.log to avoid shifting image
-          }
-        }
-
-        // Clear screen for next image (if not paused or skipped)
-        if (this.isRunning && !this.isPaused) {
-          console.clear();
-          console.log(brightCyan("🎮 TTY Slide - Keyboard Controls:"));
-          console.log(`${green("SPACE")} - Pause/Resume | ${green("N/→")} - Skip | ${green("S")} - Save | ${green("Q")} - Quit\n`);
+          await this.saveSlide(this.currentImageBuffer, this.currentSlideImage);
         }
 
       } catch (error) {
         LoadingAnimation.stop(); // Ensure loading animation is stopped on any error
         Logger.error("Unexpected error in main loop", error as Error);
+        this.finishSlide(false, (error as Error).message);
         await this.sleep(5000);
       }
     }
 
     Logger.info("TTY Slide shut down complete");
     this.cleanup();
+    return this.slidesFailed === 0 && this.slidesShown > 0 ? 0 : 1;
+  }
+
+  // Keeps a rendered slide up for its interval: the progress bar on screen, a plain wait after headless output
+  private async holdSlide(): Promise<void> {
+    if (this.headless) {
+      await ScreenCompositor.print();
+      this.finishSlide(true);
+      if (this.isRunning) {
+        await this.sleep(this.config.intervalSeconds * 1000);
+      }
+      return;
+    }
+
+    await this.handleProgressBarWithControls();
+    this.finishSlide(true);
+  }
+
+  // Counts a slide towards --count, stopping the show once enough slides were shown or failed
+  private finishSlide(rendered: boolean, failure?: string): void {
+    if (rendered) {
+      this.slidesShown++;
+    } else {
+      this.slidesFailed++;
+      // Nothing else tells a cron job or pipe why a slide is missing
+      if (this.headless && failure) {
+        console.error(`${Theme.paint("error", "✗")} ${failure}`);
+      }
+    }
+
+    if (this.config.count !== null && this.slidesShown + this.slidesFailed >= this.config.count) {
+      this.isRunning = false;
+    }
+  }
+
+  // One round of the contact sheet: show it and run the timer; the next round brings a new sheet
+  private async runContactSheet(navigation: "back" | "forward"): Promise<void> {
+    const action = this.sheetAction;
+    this.sheetAction = "new";
+
+    // Going back shows the current sheet again, there is no history of sheets
+    if (!this.sheet || (action === "new" && navigation === "forward")) {
+      const sheet = await this.fetchContactSheet();
+      if (sheet === "failed") {
+        // The whole sheet counts as one slide towards --count, not each thumbnail
+        Logger.warn("Failed to fetch thumbnails for the contact sheet, retrying in 5 seconds...");
+        this.finishSlide(false, "Failed to fetch thumbnails for the contact sheet");
+        await this.sleep(5000);
+        return;
+      }
+      if (!sheet) return;
+      this.sheet = sheet;
+    }
+
+    this.currentSlideImage = null;
+    this.currentImageBuffer = null;
+    this.kenBurns = null;
+
+    await this.renderSheet(this.sheet);
+    if (this.isRunning && this.showingSheet) {
+      await this.holdSlide();
+    }
+  }
+
+  // Fills a sheet with fresh thumbnails; a run of failed fetches ends it with what was collected so far
+  private async fetchContactSheet(): Promise<ContactSheet | "failed" | null> {
+    const size = this.config.grid ?? ContactSheet.DEFAULT_SIZE;
+    const entries: HistoryEntry[] = [];
+    let failures = 0;
+
+    while (entries.length < size.columns * size.rows && this.isRunning && this.showingSheet) {
+      const entry = await this.fetchNextSlide();
+      if (entry === "failed") {
+        failures++;
+        if (failures >= TTYSlide.SHEET_FETCH_ATTEMPTS) break;
+        Logger.warn(`Failed to fetch thumbnail ${entries.length + 1}, retrying in 5 seconds...`);
+        await this.sleep(5000);
+        continue;
+      }
+      if (!entry) {
+        // Stop filling the sheet when the user navigates away
+        if (this.skipRequested) break;
+        continue;
+      }
+
+      failures = 0;
+      entries.push(entry);
+      if (!this.config.noSave) {
+        // A thumbnail that cannot be saved still goes on the sheet
+        try {
+          await this.saveWithExports(entry.buffer, entry.slideImage, this.config.exportFormats);
+        } catch (error) {
+          Logger.warn(`Saving thumbnail ${entries.length} failed: ${(error as Error).message}`);
+        }
+      }
+    }
+
+    LoadingAnimation.stop();
+    if (entries.length > 0) return new ContactSheet(entries, size);
+    return failures >= TTYSlide.SHEET_FETCH_ATTEMPTS ? "failed" : null;
+  }
+
+  // Saves the original image and its rendering in `formats` next to it
+  private async saveWithExports(
+    buffer: Uint8Array,
+    slideImage: SlideImage,
+    formats: ExportFormat[],
+  ): Promise<string> {
+    const savePath = await ImageProcessor.saveImage(buffer, slideImage, this.config.outputDir);
+
+    if (formats.length > 0) {
+      // The slide on screen is exported as displayed, anything else (sheet thumbnails) is rendered again
+      const onScreen = !this.showingSheet && buffer === this.currentImageBuffer;
+      const basePath = savePath.slice(0, savePath.length - extname(savePath).length);
+      await AsciiExporter.export(
+        basePath,
+        buffer,
+        onScreen ? ScreenCompositor.get("image") : null,
+        this.config,
+        formats,
+      );
+    }
+
+    return savePath;
+  }
+
+  // The S key always writes the rendering too, as ANSI unless --export-ascii picks the formats
+  private async saveSlide(buffer: Uint8Array, slideImage: SlideImage): Promise<void> {
+    const formats = this.config.exportFormats.length > 0
+      ? this.config.exportFormats
+      : AsciiExporter.SAVE_KEY_FORMATS;
+    try {
+      const savePath = await this.saveWithExports(buffer, slideImage, formats);
+      ScreenCompositor.toast(Theme.paint("success", `💾 Saved ${savePath} + ${formats.join(", ")}`));
+    } catch (error) {
+      ScreenCompositor.toast(Theme.paint("error", `Save failed: ${(error as Error).message}`));
+    }
+    await ScreenCompositor.flush();
+  }
+
+  // Null when the user navigated back while the slide was loading; callers decide how a failure counts
+  private async fetchNextSlide(): Promise<HistoryEntry | "failed" | null> {
+    // Start loading animation (only visible when the queue has nothing ready)
+    LoadingAnimation.start("Fetching image...");
+
+    const entry = await this.prefetchQueue.take();
+
+    if (!entry) {
+      LoadingAnimation.stop();
+      return "failed";
+    }
+
+    // Keep the slide for later if the user asked to go back while it was loading
+    if (this.skipRequested && this.navigationRequest === "back") {
+      LoadingAnimation.stop();
+      this.prefetchQueue.putBack(entry);
+      return null;
+    }
+
+    return entry;
   }
 
   private async sleep(ms: number): Promise<void> {
@@ -1512,19 +8461,37 @@ class TTYSlide {
   }
 
   private async handleProgressBarWithControls(): Promise<void> {
-    const terminalWidth = TerminalUtils.getTerminalWidth();
-    const barWidth = Math.min(60, Math.floor(terminalWidth * 0.6));
     const updateInterval = 100; // Update every 100ms
-    const totalUpdates = (this.config.intervalSeconds * 1000) / updateInterval;
+    let totalTime = this.config.intervalSeconds * 1000;
+
+    let elapsed = 0;
+    let tickAt = performance.now(); // Elapsed time is measured, so slow redraws do not stretch the interval
+
+    while (elapsed <= totalTime && this.isRunning && !this.skipRequested) {
+      // A new interval keeps the bar where it is, so the remaining time is scaled rather than restarted
+      if (this.config.intervalSeconds * 1000 !== totalTime) {
+        const newTotal = this.config.intervalSeconds * 1000;
+        elapsed = Math.round(elapsed * newTotal / totalTime);
+        totalTime = newTotal;
+      }
 
-    // Move cursor to a new line before starting progress bar
-    console.log();
+      if (this.seekRequest !== null) {
+        elapsed = Math.round(this.seekRequest * totalTime);
+        this.seekRequest = null;
+      }
 
-    let currentUpdate = 0;
+      // Re-render the cached slide at the new size or view without resetting elapsed time
+      if (this.needsRedraw()) {
+        try {
+          await this.redraw();
+        } catch {
+          // The error screen is already displayed
+        }
+      }
 
-    while (currentUpdate <= totalUpdates && this.isRunning && !this.skipRequested) {
-      const encoder = new TextEncoder();
-      const progress = currentUpdate / totalUpdates;
+      const terminalWidth = TerminalUtils.getTerminalWidth();
+      const barWidth = Math.min(60, Math.floor(terminalWidth * 0.6));
+      const progress = Math.min(1, elapsed / totalTime);
       const filledWidth = Math.floor(progress * (barWidth - 4)); // Reserve 4 chars for play/pause indicator
       const emptyWidth = (barWidth - 4) - filledWidth;
 
@@ -1532,18 +8499,14 @@ class TTYSlide {
       let stateIndicator: string;
       if (this.isPaused) {
         // ASCII pause symbol: two vertical bars "||"
-        stateIndicator = yellow("⏸");
+        stateIndicator = Theme.paint("paused", "⏸");
       } else {
         // ASCII play symbol: triangle ">"
-        stateIndicator = green("▶");
+        stateIndicator = Theme.paint("playing", "▶");
       }
 
       // Build progress bar
-      let bar = "";
-      for (let j = 0; j < filledWidth; j++) {
-        bar += bgBrightWhite("█");
-      }
-      bar += "░".repeat(emptyWidth);
+      const bar = Theme.paint("bar", "█".repeat(filledWidth)) + "░".repeat(emptyWidth);
 
       // Combine state indicator with progress bar
       const fullBar = stateIndicator + " " + bar;
@@ -1553,18 +8516,43 @@ class TTYSlide {
       const padding = Math.max(0, Math.floor((terminalWidth - totalBarLength) / 2));
       const centeredBar = " ".repeat(padding) + fullBar;
 
-      // Write the progress bar (always overwrite the same line)
-      await Deno.stdout.write(encoder.encode(`\r${centeredBar}`));
+      // A status line caption moves the bar to the left edge; the bar starts after the indicator and a space
+      const barLeft = this.config.captionPosition === "statusline" ? 0 : padding;
+      this.progressBarColumns = { start: barLeft + 4, width: barWidth - 4 };
 
-      // If paused, wait without incrementing progress
+      // The progress bar lives in the status line; toasts expire on the same flush
+      ScreenCompositor.set("status", [centeredBar]);
+      await ScreenCompositor.flush();
+
+      // If paused, wait without incrementing progress (this also holds the animation)
       if (this.isPaused) {
-        while (this.isPaused && this.isRunning && !this.skipRequested) {
+        this.animationPlayer?.pause();
+        while (
+          this.isPaused && this.isRunning && !this.skipRequested && !this.needsRedraw() && this.seekRequest === null
+        ) {
           await new Promise((resolve) => setTimeout(resolve, updateInterval));
         }
+        this.animationPlayer?.resume();
+        tickAt = performance.now();
       } else {
-        currentUpdate++;
-        if (currentUpdate <= totalUpdates) {
-          await new Promise((resolve) => setTimeout(resolve, updateInterval));
+        if (elapsed >= totalTime) {
+          break;
+        }
+
+        // Wake up early when an animation frame is due, so frames and bar are drawn in turn
+        const step = Math.min(
+          updateInterval,
+          totalTime - elapsed,
+          this.animationPlayer?.getTimeUntilNextFrame() ?? updateInterval,
+        );
+        await new Promise((resolve) => setTimeout(resolve, step));
+        await this.animationPlayer?.advance();
+        const now = performance.now();
+        elapsed += now - tickAt;
+        tickAt = now;
+
+        if (this.kenBurns?.update(this.viewport, elapsed, totalTime)) {
+          await this.drawKenBurnsFrame();
         }
       }
 
@@ -1573,8 +8561,6 @@ class TTYSlide {
         break;
       }
     }
-
-    console.log(); // Move to new line after progress bar completes
   }
 }
 
@@ -1605,16 +8591,40 @@ ${white("chmod +x tty-slide.ts && ./")}${bold("tty-slide.ts")} ${green("[options
 ${bold("Method 3 (Using deno task, if configured):")}
 ${white("deno task tty-slide")} ${green("[options]")}
 
+${bold("Replay a recording:")}
+${bold("tty-slide.ts")} ${green("replay FILE.cast [--speed=N]")}    ${white("SPACE pauses, Q stops")}
+
+${bold("Favourites and ratings:")}
+${bold("tty-slide.ts")} ${green("library [--favorites] [--min-rating=N] [--tag=TAG] [--source=NAME] [--json]")}
+${bold("tty-slide.ts")} ${green("library remove N|URL...")}    ${white("N is the number shown by library")}
+
+${bold("Blocked images, artists and tags:")}
+${bold("tty-slide.ts")} ${green("blocklist [list]")}
+${bold("tty-slide.ts")} ${green("blocklist remove N|VALUE...")}    ${white("N is the number shown by blocklist")}
+
 ${bold(brightCyan("Keyboard Controls:"))}
-  ${green("SPACE")}              ${white("Pause/Resume slideshow")}
-  ${green("N / →")}               ${white("Skip to next slide immediately")}
-  ${green("S")}                  ${white("Save current slide (works even with --no-save)")}
+  ${green("SPACE")}              ${white("Pause/Resume slideshow and animations")}
+  ${green("P / ←")}               ${white("Go back to the previous slide in history")}
+  ${green("N / →")}               ${white("Step forward through history, then skip to a new slide")}
+  ${green("+ / -")}               ${white("Zoom in and out of the current slide (pauses the slideshow)")}
+  ${green("H J K L / ↑ ↓")}       ${white("Pan a zoomed slide (Shift+arrows pan in all four directions)")}
+  ${green("G")}                  ${white("Toggle the contact sheet grid")}
+  ${green("1-99")}               ${white("Open a thumbnail of the contact sheet (S then a number saves it)")}
+  ${green("C / F / I / R")}       ${white("Toggle colors, background fill, caption and inverted brightness")}
+  ${green("[ / ]")}               ${white("Shorten or lengthen the interval, keeping the slide's progress")}
+  ${green("Shift+F")}            ${white("Add the slide to favourites, or remove it (--source=favorites replays them)")}
+  ${green("1-5")}                ${white("Rate the slide with 1 to 5 stars; the same number again clears it")}
+  ${green("X")}                  ${white("Block the slide, its artist or one of its tags (never shown again)")}
+  ${green("S")}                  ${white("Save the slide on screen and its ANSI rendering (works even with --no-save)")}
+  ${green("?")}                  ${white("Show all key bindings over the slide (ESC or ? closes it)")}
+  ${green(":")}                  ${white("Command line: :source, :tags, :interval, :colors, :save-dir (TAB completes)")}
   ${green("Q")}                  ${white("Quit slideshow")}
   ${green("Ctrl+C")}             ${white("Force quit")}
+  ${white("These are the defaults; rebind them in ~/.config/tty-slide/keymap.json or with --keymap")}
 
 ${bold(brightCyan("Options:"))}
   ${green("--source=SOURCE")}    ${
-    white("Image source: waifu, pexels, random, or /path/to/directory")
+    white("Image source: waifu, pexels, favorites, random, or /path/to/directory")
   } ${brightRed("(default: random)")}
   ${green("--nsfw")}             ${white("Include NSFW tags (waifu only)")} ${
     brightRed("(default: false)")
@@ -1622,6 +8632,15 @@ ${bold(brightCyan("Options:"))}
   ${green("--interval=N")}       ${
     white("Set interval between images in seconds")
   } ${brightRed("(default: 10)")}
+  ${green("--history=N")}        ${
+    white("Number of previous slides kept for back navigation")
+  } ${brightRed("(default: 20)")}
+  ${green("--prefetch=N")}       ${
+    white("Number of upcoming slides to fetch in the background (0 disables)")
+  } ${brightRed("(default: 2)")}
+  ${green("--export-ascii=FMT")} ${
+    white("Write the rendering of every saved slide: ans, txt, html, svg (S alone: ans)")
+  }
   ${green("--dir=DIR")}          ${
     white("Set output directory for saved images")
   } ${brightRed("(default: ~/Pictures/TTY-Slides or ./slides)")}
@@ -1629,16 +8648,53 @@ ${bold(brightCyan("Options:"))}
   ${green("--tags=TAG1,TAG2")}   ${
     white("Search tags (waifu) or query terms (pexels)")
   }
-  ${green("--colors")}           ${white("Display image in color")} ${
-    yellow("(requires jp2a)")
-  }
-  ${green("--fill")}             ${white("Fill ASCII art background with ANSI color")} ${
-    yellow("(requires jp2a)")
-  }
+  ${green("--colors")}           ${white("Display image in color")}
+  ${green("--fill")}             ${white("Fill ASCII art background with ANSI color")}
+  ${green("--invert")}           ${white("Dense characters for dark areas, for light terminal backgrounds")}
+  ${green("--color-depth=N")}    ${
+    white("Colors for --colors: 16, 256 or truecolor")
+  } ${brightRed("(default: detected from COLORTERM and TERM)")}
+  ${green("--theme=NAME")}       ${
+    white("Interface colors: default, mono, solarized, high-contrast or a JSON file")
+  } ${brightRed("(default: default)")}
+  ${green("--renderer=NAME")}    ${
+    white("Renderer: auto, jp2a, chafa, sixel, kitty, iterm2 or builtin")
+  } ${brightRed("(default: auto)")}
+  ${green("--mode=MODE")}        ${
+    white("Text mode: ascii, blocks (half-block truecolor) or braille")
+  } ${brightRed("(default: ascii)")}
+  ${green("--transition=NAME")}  ${
+    white("Slide change effect: wipe, dissolve, slide, fade, random or none")
+  } ${brightRed("(default: none)")}
+  ${green("--transition-ms=N")}  ${
+    white("Transition duration in milliseconds")
+  } ${brightRed("(default: 600)")}
+  ${green("--ken-burns")}        ${white("Slowly zoom and pan across each slide during its interval")}
+  ${green("--grid=CxR")}         ${white("Start with a contact sheet of C x R thumbnails (e.g. 3x2)")}
   ${green("--caption")}          ${
     white("Display image caption with source and artist info")
   }
-  ${green("--list-sources")}     ${white("Show all available sources and exit")}
+  ${green("--caption-format=FMT")} ${
+    white("Caption template: {source} {artist} {tags} {caption} {description} {width} {height} {filename} {date}, \\n for a new line")
+  }
+                       ${white("EXIF placeholders: {camera} {lens} {shutter} {aperture} {iso} {focal} {taken} {gps}")}
+  ${green("--caption-position=POS")} ${
+    white("Caption placement: top, bottom, overlay or statusline")
+  } ${brightRed("(default: bottom)")}
+  ${green("--sort=ORDER")}       ${
+    white("Directory playback order: random, name, date (modified) or taken (EXIF)")
+  } ${brightRed("(default: random)")}
+  ${green("--caption-lines=N")}  ${white("Cut captions longer than N lines")} ${brightRed("(default: 6)")}
+  ${green("--mouse")}            ${
+    white("Click the right/left half for next/previous, scroll through history, click the bar to seek")
+  }
+  ${green("--keymap=FILE")}      ${
+    white("Key bindings file")
+  } ${brightRed("(default: ~/.config/tty-slide/keymap.json, when it exists)")}
+  ${green("--record=FILE")}      ${white("Record everything drawn to an asciicast v2 file")}
+  ${green("--once")}             ${white("Print one slide to stdout and exit (for MOTDs and scripts)")}
+  ${green("--count=N")}          ${white("Show N slides, then exit")}
+  ${green("--list-sources")}     ${white("Show all available sources and image formats, then exit")}
   ${green("--list-tags")}        ${white("Show all available tags and exit")}
   ${green("--help")}             ${white("Show this help message")}
 
@@ -1679,6 +8735,10 @@ ${bold(brightCyan("Environment Variables:"))}
                      ${
     brightRed("Without DEBUG=true, only the progress bar and caption are shown")
   }
+  ${green("NO_COLOR=1")}         ${white("Plain interface text; images keep --colors")}
+  ${green("FORCE_COLOR=N")}      ${
+    white("Colors even when piped: 0 off, 1 for 16, 2 for 256, 3 for truecolor")
+  }
 
 ${bold(brightCyan("API Keys:"))}
 ${yellow("Create a")} ${white(".env")} ${yellow("file in the same directory with:")}
@@ -1690,18 +8750,203 @@ ${yellow("Get your free Pexels API key at:")} ${
 `;
 }
 
+// Replays an asciicast file: tty-slide replay FILE [--speed=N]
+async function replaySession(args: string[]): Promise<void> {
+  const path = args.find((arg) => !arg.startsWith("--"));
+  if (!path) {
+    console.error(`${red("Usage:")} tty-slide replay FILE.cast [--speed=N]`);
+    Deno.exit(1);
+  }
+
+  const speedArg = args.find((arg) => arg.startsWith("--speed="));
+  const speed = speedArg ? parseFloat(speedArg.split("=")[1]) : 1;
+  if (!(speed > 0)) {
+    console.error(`${red("Invalid speed:")} ${speedArg!.split("=")[1]}`);
+    Deno.exit(1);
+  }
+
+  let recording;
+  try {
+    recording = await SessionPlayer.load(path);
+  } catch (error) {
+    console.error(`${red("Cannot replay")} ${path}: ${(error as Error).message}`);
+    Deno.exit(1);
+  }
+
+  // The recording is drawn at absolute positions, so a smaller terminal cuts it off
+  const size = TerminalUtils.getTerminalSize();
+  if (size.columns < recording.width || size.rows < recording.height) {
+    console.error(
+      yellow(`Recorded at ${recording.width}x${recording.height}, this terminal is ${size.columns}x${size.rows}`),
+    );
+    await new Promise((resolve) => setTimeout(resolve, 2000));
+  }
+
+  await new SessionPlayer().play(recording.events, speed);
+}
+
+// Lists the library, filtered by the given options, or removes slides by their number in the list or URL
+async function manageLibrary(args: string[]): Promise<void> {
+  const [command = "list", ...targets] = args.filter((arg) => !arg.startsWith("--"));
+  const option = (name: string) => args.find((arg) => arg.startsWith(`--${name}=`))?.slice(name.length + 3);
+
+  let entries: LibraryEntry[];
+  try {
+    entries = await Library.load();
+  } catch (error) {
+    console.error(`${red("Cannot read the library")} ${Library.path()}: ${(error as Error).message}`);
+    Deno.exit(1);
+  }
+
+  if (command === "remove") {
+    if (targets.length === 0) {
+      console.error(`${red("Usage:")} tty-slide library remove N|URL...`);
+      Deno.exit(1);
+    }
+
+    const urls = targets.map((target) => /^\d+$/.test(target) ? entries[parseInt(target) - 1]?.url : target);
+    const unknown = targets.filter((_, i) => !entries.some((entry) => entry.url === urls[i]));
+    if (unknown.length > 0) {
+      console.error(`${red("Not in the library:")} ${unknown.join(", ")}`);
+      Deno.exit(1);
+    }
+
+    await Library.remove(urls);
+    console.log(`${green("✓")} Removed ${targets.length} slide${targets.length === 1 ? "" : "s"} from the library`);
+    return;
+  }
+
+  if (command !== "list") {
+    console.error(`${red("Usage:")} tty-slide library [list|remove] (see --help)`);
+    Deno.exit(1);
+  }
+
+  // Numbers stay those of the whole library, so they can be passed to remove
+  const minRating = parseInt(option("min-rating") ?? "0") || 0;
+  const tag = option("tag")?.toLowerCase();
+  const source = option("source");
+  const matches = entries
+    .map((entry, i) => ({ entry, number: i + 1 }))
+    .filter(({ entry }) =>
+      (!args.includes("--favorites") || entry.favorite) &&
+      (entry.rating ?? 0) >= minRating &&
+      (!tag || entry.slideImage.tags?.some((candidate) => candidate.toLowerCase() === tag)) &&
+      (!source || entry.slideImage.source === source)
+    );
+
+  if (args.includes("--json")) {
+    console.log(JSON.stringify(matches.map(({ entry }) => entry), null, 2));
+    return;
+  }
+
+  const favorites = entries.filter((entry) => entry.favorite).length;
+  console.log(`\n${bold(brightCyan("Library:"))} ${white(Library.path() ?? "")} ${
+    yellow(`(${entries.length} slides, ${favorites} favourites)`)
+  }\n`);
+
+  for (const { entry, number } of matches) {
+    const tags = entry.slideImage.tags?.length ? `  ${entry.slideImage.tags.join(", ")}` : "";
+    console.log(
+      `${String(number).padStart(4)}  ${entry.favorite ? brightRed("♥") : " "} ${
+        yellow(Library.stars(entry.rating).padEnd(5))
+      }  ${entry.addedAt.slice(0, 10)}  ${green(entry.slideImage.source.padEnd(9))} ${white(entry.url)}${tags}`,
+    );
+  }
+  if (matches.length === 0) {
+    console.log(yellow(entries.length ? "No slides match" : "Nothing yet: press F to favourite a slide, 1-5 to rate it"));
+  }
+}
+
+// Lists what is blocked, or unblocks entries by their number in the list or their value
+async function manageBlocklist(args: string[]): Promise<void> {
+  const [command = "list", ...targets] = args;
+
+  let items: BlockedItems;
+  try {
+    items = await Blocklist.load();
+  } catch (error) {
+    console.error(`${red("Cannot read the blocklist")} ${Blocklist.path()}: ${(error as Error).message}`);
+    Deno.exit(1);
+  }
+
+  // One numbered list: images, then artists, then tags
+  const entries = (Object.entries(Blocklist.LISTS) as [BlockKind, keyof BlockedItems][])
+    .flatMap(([kind, list]) => items[list].map((value) => ({ kind, value })));
+
+  if (command === "remove") {
+    if (targets.length === 0) {
+      console.error(`${red("Usage:")} tty-slide blocklist remove N|VALUE...`);
+      Deno.exit(1);
+    }
+
+    const removals = targets.map((target) =>
+      /^\d+$/.test(target)
+        ? entries[parseInt(target) - 1]
+        : entries.find((entry) => Blocklist.isSameValue(entry.kind, entry.value, target))
+    );
+    const unknown = targets.filter((_, i) => !removals[i]);
+    if (unknown.length > 0) {
+      console.error(`${red("Not on the blocklist:")} ${unknown.join(", ")}`);
+      Deno.exit(1);
+    }
+
+    for (const { kind, value } of removals as { kind: BlockKind; value: string }[]) {
+      await Blocklist.remove(kind, value);
+    }
+    console.log(`${green("✓")} Unblocked ${targets.length} entr${targets.length === 1 ? "y" : "ies"}`);
+    return;
+  }
+
+  if (command !== "list") {
+    console.error(`${red("Usage:")} tty-slide blocklist [list|remove] (see --help)`);
+    Deno.exit(1);
+  }
+
+  console.log(`\n${bold(brightCyan("Blocklist:"))} ${white(Blocklist.path() ?? "")} ${
+    yellow(`(${items.images.length} images, ${items.artists.length} artists, ${items.tags.length} tags)`)
+  }\n`);
+
+  entries.forEach(({ kind, value }, i) => {
+    console.log(`${String(i + 1).padStart(4)}  ${green(kind.padEnd(6))}  ${white(value)}`);
+  });
+  if (entries.length === 0) {
+    console.log(yellow("Nothing blocked: press X on a slide to block it, its artist or one of its tags"));
+  }
+}
+
 // Main execution function
 async function main(): Promise<void> {
   try {
+    // Help, listings and errors follow NO_COLOR and FORCE_COLOR like the themed slideshow screen
+    setColorEnabled(TerminalUtils.interfaceColorsEnabled());
+
     // Show help if requested
     if (Deno.args.includes("--help") || Deno.args.includes("-h")) {
       console.log(getColoredHelpMessage());
       Deno.exit(0);
     }
 
+    // Play back a recording made with --record, without fetching or rendering anything
+    if (Deno.args[0] === "replay") {
+      await replaySession(Deno.args.slice(1));
+      Deno.exit(0);
+    }
+
+    // Show or edit the favourites and ratings library
+    if (Deno.args[0] === "library") {
+      await manageLibrary(Deno.args.slice(1));
+      Deno.exit(0);
+    }
+
+    // Show or edit the blocklist
+    if (Deno.args[0] === "blocklist") {
+      await manageBlocklist(Deno.args.slice(1));
+      Deno.exit(0);
+    }
+
     // List sources if requested
     if (Deno.args.includes("--list-sources")) {
-      FetcherRegistry.listAllSources();
+      await FetcherRegistry.listAllSources();
       Deno.exit(0);
     }
 
@@ -1711,16 +8956,61 @@ async function main(): Promise<void> {
       Deno.exit(0);
     }
 
-    // Check dependencies
-    await DependencyChecker.checkAllDependencies();
-
     // Parse configuration
     const config = await ConfigManager.parseArgs();
 
+    try {
+      await Theme.load(config.theme, config.colorDepth, TerminalUtils.interfaceColorsEnabled());
+    } catch (error) {
+      console.error(`${red("Cannot load theme")} ${config.theme}: ${(error as Error).message}`);
+      Deno.exit(1);
+    }
+
+    try {
+      await Keymap.load(config.keymapPath);
+    } catch (error) {
+      const path = config.keymapPath ?? Keymap.defaultPath();
+      console.error(`${red("Cannot load keymap")} ${path}: ${(error as Error).message}`);
+      Deno.exit(1);
+    }
+
+    try {
+      await Blocklist.load();
+    } catch (error) {
+      console.error(`${red("Cannot load blocklist")} ${Blocklist.path()}: ${(error as Error).message}`);
+      Deno.exit(1);
+    }
+
+    // Pick the renderer (auto-detecting terminal graphics support) and check its dependencies
+    let renderer = await RendererRegistry.resolve(config.renderer, config.mode);
+    if (!renderer) {
+      console.error(
+        `${red("Unknown renderer:")} ${config.renderer} (available: auto, ${RendererRegistry.getNames().join(", ")})`,
+      );
+      Deno.exit(1);
+    }
+    if (!renderer.supportsMode(config.mode)) {
+      Logger.warn(`${renderer.getName()} does not support --mode=${config.mode}, using the built-in renderer`);
+      renderer = RendererRegistry.getFallback();
+    }
+    const activeRenderer = await DependencyChecker.checkAllDependencies(renderer);
+    config.renderer = activeRenderer.getName();
+
+    if (config.recordPath) {
+      try {
+        SessionRecorder.start(config.recordPath, TerminalUtils.getTerminalSize());
+      } catch (error) {
+        console.error(`${red("Cannot record to")} ${config.recordPath}: ${(error as Error).message}`);
+        Deno.exit(1);
+      }
+    }
+
     // Start the application
     const app = new TTYSlide(config);
-    await app.run();
+    Deno.exit(await app.run());
   } catch (error) {
+    ScreenCompositor.leave();
+    SessionRecorder.stop();
     Logger.error("Fatal error during startup", error as Error);
     Deno.exit(1);
   }